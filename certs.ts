@@ -0,0 +1,96 @@
+import { createPrivateKey, X509Certificate } from 'crypto';
+import { Cert } from './types';
+
+// A certificate's expiry, or a project domain that no certificate covers
+export interface CertCheck {
+  status: 'ok' | 'expiring' | 'expired' | 'missing';
+  cert: string | null;
+  domains: string[];
+  expiresAt: number | null;
+  daysLeft: number | null;
+  autoRenew?: boolean;
+  // The project a missing domain is attached to
+  project?: string;
+}
+
+// A domain attached to a project, which needs a certificate
+export interface AttachedDomain {
+  name: string;
+  project?: string;
+}
+
+// What a PEM certificate is for, read locally before it is uploaded
+export interface CertificateInfo {
+  cns: string[];
+  expiresAt: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const STATUS_ORDER: CertCheck['status'][] = ['missing', 'expired', 'expiring', 'ok'];
+
+const normalize = (name: string) => name.toLowerCase().replace(/\.$/, '');
+
+// A wildcard name covers exactly one label below its base: *.example.com covers www.example.com,
+// but neither example.com nor a.b.example.com
+export function certCovers(cns: string[], domain: string): boolean {
+  const name = normalize(domain);
+  return cns.map(normalize).some((cn) => cn === name || (cn.startsWith('*.') && name.slice(name.indexOf('.') + 1) === cn.slice(2)));
+}
+
+export function certExpiry(cert: Cert): number | undefined {
+  if (cert.expiresAt === undefined) return undefined;
+  return typeof cert.expiresAt === 'number' ? cert.expiresAt : Date.parse(cert.expiresAt);
+}
+
+// Certificates expiring within `days` (or already expired) and domains without a certificate.
+// Problems come first, then the rest by expiry.
+export function checkCerts(certs: Cert[], domains: AttachedDomain[], days: number, now = Date.now()): CertCheck[] {
+  const checks: CertCheck[] = certs.map((cert) => {
+    const expiresAt = certExpiry(cert) ?? null;
+    const status = expiresAt === null ? 'ok' : expiresAt <= now ? 'expired' : expiresAt <= now + days * DAY ? 'expiring' : 'ok';
+    return {
+      status,
+      cert: cert.uid || cert.id || null,
+      domains: cert.cns,
+      expiresAt,
+      daysLeft: expiresAt === null ? null : Math.floor((expiresAt - now) / DAY),
+      autoRenew: cert.autoRenew,
+    };
+  });
+
+  const valid = certs.filter((cert) => (certExpiry(cert) ?? Infinity) > now);
+  for (const domain of domains) {
+    if (valid.some((cert) => certCovers(cert.cns, domain.name))) continue;
+    checks.push({ status: 'missing', cert: null, domains: [domain.name], expiresAt: null, daysLeft: null, project: domain.project });
+  }
+
+  const rank = (check: CertCheck) => STATUS_ORDER.indexOf(check.status);
+  return checks.sort((a, b) => rank(a) - rank(b) || (a.expiresAt ?? 0) - (b.expiresAt ?? 0));
+}
+
+// Reads the names and expiry of a PEM certificate and checks that the key belongs to it, so a wrong
+// file is reported before anything is sent
+export function inspectCertificate(cert: string, key: string): CertificateInfo {
+  let x509: X509Certificate;
+  try {
+    x509 = new X509Certificate(cert);
+  } catch (error) {
+    throw new Error(`Not a PEM certificate: ${(error as Error).message}`);
+  }
+  let matches: boolean;
+  try {
+    matches = x509.checkPrivateKey(createPrivateKey(key));
+  } catch (error) {
+    throw new Error(`Not a PEM private key: ${(error as Error).message}`);
+  }
+  if (!matches) throw new Error('The private key does not belong to the certificate');
+
+  const expiresAt = Date.parse(x509.validTo);
+  if (expiresAt <= Date.now()) throw new Error(`The certificate expired on ${new Date(expiresAt).toISOString()}`);
+  const altNames = (x509.subjectAltName || '')
+    .split(', ')
+    .filter((name) => name.startsWith('DNS:'))
+    .map((name) => name.slice(4));
+  const commonName = x509.subject.match(/^CN=(.+)$/m)?.[1];
+  return { cns: altNames.length ? altNames : commonName ? [commonName] : [], expiresAt };
+}
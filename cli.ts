@@ -1,532 +1,1139 @@
 #!/usr/bin/env ts-node
-import axios, { AxiosInstance } from 'axios';
+import * as dns from 'dns';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
+import { mapConcurrent, sleep } from './async';
+import { formatOutput, OutputFormat, OUTPUT_FORMATS } from './format';
+import { diffEnv, EnvChange, envTargets, formatEnvFile, maskValue, planEnvPush, readEnvFile } from './envfile';
+import {
+  CommandInput,
+  CommandSpec,
+  completionScript,
+  COMPLETION_SHELLS,
+  FlagSpec,
+  formatCommandHelp,
+  formatHelp,
+  parseCommandArgs,
+  parseDuration,
+  peekFlag,
+  suggest,
+  UsageError,
+} from './commands';
+import { checkCerts, inspectCertificate } from './certs';
+import { checkRecords, DnsResolver, requiredRecords, zoneRecord } from './dnscheck';
+import { deploymentFunctions, diffDeployments, filterFileEntries, flattenFileTree } from './inspect';
+import { ApiError, VercelError } from './errors';
+import { DEFAULT_REQUEST_TIMEOUT, DEFAULT_RETRIES, DryRunRequest } from './http';
+import { ClientOptions, deploymentCommit, eventText, eventTime, GIT_PROVIDERS, VercelClient } from './client';
+import {
+  configPath,
+  ConfigFile,
+  Credentials,
+  DEFAULT_CONFIG_FILE,
+  DEFAULT_ENV_FILE,
+  envFilePath,
+  loadConfig,
+  Profile,
+  resolveCredentials,
+  saveConfig,
+} from './config';
+import {
+  Deployment,
+  DeploymentEvent,
+  DeploymentFileEntry,
+  DeploymentState,
+  DnsRecordInput,
+  Domain,
+  EnvTarget,
+  EnvType,
+  EnvVarInput,
+  EnvVarSelector,
+  EventOptions,
+  GitProvider,
+  ListOptions,
+  ListResult,
+  Project,
+  ProjectSettings,
+  ProjectStatus,
+  UsageMetrics,
+  WaitOptions,
+} from './types';
+import { formatSpec, planSpec, ProjectSpec, readSpec, SpecChange, SpecPlan, specFromState } from './spec';
+import { planPrune, RetentionPolicy } from './retention';
+import { projectStatus, statusChanges } from './status';
+import { collectFiles } from './upload';
+import { checkBudget, groupUsage, readBudget, sumUsage, UsageGrouping } from './usage';
+import { diffZone, formatZoneFile, parseRecord, parseZoneFile, recordFromApi } from './zonefile';
+
+interface LogOptions extends EventOptions {
+  follow?: boolean;
+  format?: 'json' | 'text';
+}
 
-// Load environment variables
-dotenv.config({ path: '/root/.openclaw/.env' });
+type EnvAddOptions = Pick<EnvVarInput, 'type' | 'gitBranch' | 'comment'>;
 
-interface VercelApiError {
-  error?: {
-    code?: string;
-    message?: string;
-  };
+interface GitDeployOptions {
+  // Branch or tag; defaults to the project's production branch
+  ref?: string;
+  sha?: string;
+  prod?: boolean;
 }
 
-class VercelCLI {
-  private api: AxiosInstance;
-  private token: string;
-  private teamId?: string;
+interface DirectoryDeployOptions {
+  prod?: boolean;
+  prebuilt?: boolean;
+  projectSettings?: ProjectSettings;
+}
 
-  constructor() {
-    this.token = process.env.VERCEL_TOKEN || '';
-    this.teamId = process.env.VERCEL_TEAM_ID;
+interface SpecOptions {
+  // Apply the spec to a project of this name instead, e.g. to clone a setup
+  name?: string;
+  prune?: boolean;
+}
 
-    if (!this.token) {
-      this.error('VERCEL_TOKEN not found in environment variables');
-      process.exit(1);
-    }
+interface RollbackOptions {
+  to?: string;
+  steps?: number;
+  // How long to wait for the aliases to move
+  timeout?: number;
+}
 
-    this.api = axios.create({
-      baseURL: 'https://api.vercel.com',
-      headers: {
-        'Authorization': `Bearer ${this.token}`,
-        'Content-Type': 'application/json',
-      },
-      ...(this.teamId && { params: { teamId: this.teamId } }),
-    });
+interface DeploymentFilesOptions {
+  // Only entries at or below this path
+  path?: string;
+  // Download the files into this directory instead of listing them
+  download?: string;
+}
 
-    // Add response interceptor for error handling
-    this.api.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.data) {
-          const errorData = error.response.data as VercelApiError;
-          if (errorData.error?.message) {
-            this.error(`API Error: ${errorData.error.message}`);
-          } else {
-            this.error(`HTTP ${error.response.status}: ${error.response.statusText}`);
-          }
-        } else {
-          this.error(`Request failed: ${error.message}`);
-        }
-        process.exit(1);
-      }
-    );
+interface DnsAddOptions {
+  ttl?: number;
+  mxPriority?: number;
+  comment?: string;
+}
+
+interface StatusOptions {
+  // Only these projects, by name or ID
+  projects?: string[];
+  watch?: boolean;
+  interval?: number;
+  // Stop watching after this many refreshes
+  count?: number;
+  // Projects fetched at once
+  concurrency?: number;
+}
+
+interface UsageOptions {
+  from?: number;
+  to?: number;
+  groupBy?: UsageGrouping;
+  // YAML/JSON file of limits; crossing one fails the command
+  budget?: string;
+}
+
+interface EnvPushOptions {
+  type?: EnvType;
+  prune?: boolean;
+}
+
+// Asks on stderr so stdout stays machine-readable; without a terminal the answer is no
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// A variable's value from the argument or --value-file (- reads stdin). Without either, piped stdin is
+// read when allowed, so secrets stay out of shell history. One trailing newline is dropped.
+async function readValue(input: CommandInput, command: string, fromStdin = false): Promise<string | undefined> {
+  if (input.value !== undefined && input.valueFile) {
+    throw new UsageError('Pass the value as an argument or with --value-file, not both', command);
+  }
+  if (input.value !== undefined) return input.value;
+
+  let raw: string;
+  if (input.valueFile === '-' || (!input.valueFile && fromStdin && !process.stdin.isTTY)) {
+    raw = await readStdin();
+  } else if (input.valueFile) {
+    if (!fs.existsSync(input.valueFile)) throw new Error(`File not found: ${input.valueFile}`);
+    raw = fs.readFileSync(input.valueFile, 'utf8');
+  } else {
+    return undefined;
+  }
+  return raw.replace(/\r?\n$/, '');
+}
+
+const changeRow = ({ resource, action, name, detail }: SpecChange) => ({ resource, action, name, detail: detail ?? null });
+
+// Body fields a dry run masks instead of printing, by request path
+const SECRET_FIELDS: { path: RegExp; fields: string[] }[] = [
+  { path: /\/env(\/|$)/, fields: ['value'] },
+  { path: /^\/v\d+\/secrets(\/|$)/, fields: ['value'] },
+  { path: /^\/v\d+\/certs(\/|$)/, fields: ['key', 'ca'] },
+];
+
+// Env var and secret values and certificate keys are masked so a dry run doesn't print secrets
+const maskRequest = (request: DryRunRequest): DryRunRequest => {
+  const { body } = request;
+  const fields = SECRET_FIELDS.find((rule) => rule.path.test(request.path))?.fields;
+  if (!fields || !body || typeof body !== 'object' || Array.isArray(body)) return request;
+  const masked: Record<string, unknown> = { ...body };
+  for (const field of fields) {
+    const value = masked[field];
+    if (typeof value === 'string') masked[field] = maskValue(value);
+  }
+  return { ...request, body: masked };
+};
+
+// Deployments counted before a project delete; more are shown as 100+
+const MAX_COUNTED = 100;
+
+const deploymentSummary = (deployment: Deployment) => ({
+  id: deployment.id || deployment.uid,
+  url: deployment.url,
+  created: deployment.createdAt ?? deployment.created,
+  ...deploymentCommit(deployment),
+});
+
+const describeDeployment = (deployment: Deployment): string => {
+  const { id, url, created, sha, message } = deploymentSummary(deployment);
+  const commit = sha ? `, ${sha.slice(0, 7)}${message ? ` ${message}` : ''}` : '';
+  return `${url} (${id}${created ? `, ${new Date(created).toISOString()}` : ''}${commit})`;
+};
+
+const recordHost = (name: string, domain: string) => (name ? `${name}.${domain}` : domain);
+
+function serverResolver(servers: string[]): DnsResolver {
+  const resolver = new dns.promises.Resolver();
+  try {
+    resolver.setServers(servers);
+  } catch (error) {
+    throw new UsageError(`Invalid --dns-server: ${(error as Error).message}`, 'domain-setup');
+  }
+  return resolver;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
+
+const DEFAULT_WAIT_TIMEOUT = 15 * 60 * 1000;
+const DEFAULT_WAIT_INTERVAL = 5000;
+const DEFAULT_ALIAS_TIMEOUT = 60 * 1000;
+const ALIAS_POLL_INTERVAL = 2000;
+const DEFAULT_DOMAIN_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_DOMAIN_INTERVAL = 10 * 1000;
+const DOWNLOAD_CONCURRENCY = 8;
+const DEFAULT_PRUNE_CONCURRENCY = 5;
+const DEPLOYMENT_STATES: DeploymentState[] = ['QUEUED', 'INITIALIZING', 'BUILDING', 'READY', 'ERROR', 'CANCELED'];
+
+const DEFAULT_STATUS_INTERVAL = 10 * 1000;
+const DEFAULT_STATUS_CONCURRENCY = 5;
+// Deployments per project the status counts building and failed ones among
+const STATUS_RECENT_DEPLOYMENTS = 20;
+
+const DEFAULT_CERT_EXPIRY_DAYS = 30;
+const DEFAULT_CERT_CONCURRENCY = 5;
+
+// Command-line presentation layer over VercelClient: formats results and maps outcomes to exit codes
+class VercelCLI {
+  private outputFormat: OutputFormat = 'json';
+  private fields?: string[];
+  private configFile = configPath();
+  private config: ConfigFile = { profiles: {} };
+  private credentials: Credentials = {};
+  private yes = false;
+  private dryRun = false;
+  private dryRunRequests: DryRunRequest[] = [];
+
+  constructor(
+    private client?: VercelClient,
+    private resolver: DnsResolver = dns.promises,
+  ) {}
+
+  private get api(): VercelClient {
+    if (!this.client) throw new VercelError('VERCEL_TOKEN not found in environment variables');
+    return this.client;
   }
 
   private error(message: string): void {
     console.error(message);
   }
 
-  private output(data: any): void {
-    console.log(JSON.stringify(data, null, 2));
+  // In a dry run the command's own output is replaced by the list of requests it would have sent
+  private output(data: any, resource?: string): void {
+    if (this.dryRun) return;
+    console.log(formatOutput(data, resource, this.outputFormat, this.fields));
+  }
+
+  // Shows what is about to change and asks to go ahead, unless --yes or --dry-run was passed
+  private async confirmAction(summary: string): Promise<void> {
+    if (this.yes || this.dryRun) return;
+    if (!process.stdin.isTTY) throw new VercelError(`${summary}\nConfirmation needed: pass --yes to run without a prompt`);
+    if (!(await confirm(summary))) throw new VercelError('Aborted');
+  }
+
+  private outputList(key: string, result: ListResult<unknown>): void {
+    this.output({ [key]: result.items, pagination: result.pagination }, key);
   }
 
   // Projects
-  async listProjects(): Promise<void> {
-    const response = await this.api.get('/v10/projects');
-    this.output(response.data);
+  async listProjects(options: ListOptions = {}): Promise<void> {
+    this.outputList('projects', await this.api.listProjects(options));
   }
 
   async getProject(nameOrId: string): Promise<void> {
-    const response = await this.api.get(`/v9/projects/${encodeURIComponent(nameOrId)}`);
-    this.output(response.data);
-  }
-
-  async createProject(name: string, framework?: string, gitRepo?: string): Promise<void> {
-    const data: any = { name };
-    if (framework) data.framework = framework;
-    if (gitRepo) {
-      const [owner, repo] = gitRepo.split('/');
-      data.gitRepository = {
-        type: 'github',
-        repo: `${owner}/${repo}`,
-      };
-    }
-    const response = await this.api.post('/v10/projects', data);
-    this.output(response.data);
+    this.output(await this.api.getProject(nameOrId), 'project');
+  }
+
+  async createProject(name: string, framework?: string, gitRepo?: string, provider?: GitProvider): Promise<void> {
+    this.output(await this.api.createProject(name, framework, gitRepo, provider), 'project');
   }
 
   async deleteProject(nameOrId: string): Promise<void> {
-    const response = await this.api.delete(`/v9/projects/${encodeURIComponent(nameOrId)}`);
-    this.output(response.data);
+    const project = await this.api.getProject(nameOrId);
+    const domains = (await this.api.listProjectDomains(project.id, { all: true })).items.map((domain) => domain.name);
+    const deployments = await this.api.listDeployments(project.name, { limit: MAX_COUNTED });
+    const deploymentCount = `${deployments.items.length}${deployments.pagination.next ? '+' : ''}`;
+    await this.confirmAction(
+      `Delete project ${project.name} (${project.id}) with ${deploymentCount} deployment(s) and ` +
+        `${domains.length} domain(s)${domains.length ? ` (${domains.join(', ')})` : ''}?`,
+    );
+    await this.api.deleteProject(nameOrId);
+    this.output({ message: `Project ${nameOrId} deleted` });
   }
 
-  async linkProject(nameOrId: string, repo: string): Promise<void> {
-    const [owner, repoName] = repo.split('/');
-    const data = {
-      gitRepository: {
-        type: 'github',
-        repo: `${owner}/${repoName}`,
-      },
-    };
-    const response = await this.api.patch(`/v9/projects/${encodeURIComponent(nameOrId)}`, data);
-    this.output(response.data);
+  async linkProject(nameOrId: string, repo: string, provider?: GitProvider): Promise<void> {
+    this.output(await this.api.linkProject(nameOrId, repo, provider), 'project');
+  }
+
+  // Pushes stop creating deployments; existing deployments and domains stay as they are
+  async unlinkProject(nameOrId: string): Promise<void> {
+    const { name, link } = await this.api.getProject(nameOrId);
+    if (!link?.type) throw new VercelError(`Project ${name} is not linked to a git repository`);
+    await this.confirmAction(`Unlink ${name} from ${link.type} repository ${link.org ? `${link.org}/` : ''}${link.repo}?`);
+    this.output(await this.api.unlinkProject(nameOrId), 'project');
+  }
+
+  async exportProject(nameOrId: string, file?: string, includeValues = false): Promise<void> {
+    const state = await this.api.getProjectState(nameOrId, { decrypt: includeValues });
+    if (!state.project) throw new VercelError(`Project '${nameOrId}' not found`);
+    const spec = specFromState(state, includeValues);
+    if (!file) {
+      this.output(spec);
+      return;
+    }
+    fs.writeFileSync(file, formatSpec(spec, file));
+    this.output({ message: `Project spec for ${spec.name} written to ${file}` });
+  }
+
+  async planProject(file: string, options: SpecOptions = {}): Promise<void> {
+    const { plan } = await this.loadPlan(file, options);
+    this.output({ changes: plan.changes.map(changeRow) }, 'changes');
+  }
+
+  async applyProject(file: string, options: SpecOptions = {}): Promise<void> {
+    const { spec, plan } = await this.loadPlan(file, options);
+    const removals = plan.changes.filter((change) => change.action === 'remove');
+    if (removals.length) {
+      await this.confirmAction(`Apply ${plan.changes.length} change(s) to ${spec.name}, removing:\n${removals.map((c) => `  ${c.resource} ${c.name}`).join('\n')}\nContinue?`);
+    }
+    for (const change of plan.changes) {
+      this.error(`${change.action} ${change.resource} ${change.name}`);
+      await this.api.applySpecChange(spec.name, change);
+    }
+    this.output({ applied: plan.changes.map(changeRow) }, 'applied');
+  }
+
+  private async loadPlan(file: string, options: SpecOptions): Promise<{ spec: ProjectSpec; plan: SpecPlan }> {
+    const spec = readSpec(file);
+    if (options.name) spec.name = options.name;
+    const state = await this.api.getProjectState(spec.name, { decrypt: true, zones: Object.keys(spec.dns || {}) });
+    const plan = planSpec(spec, state, options.prune);
+    for (const warning of plan.warnings) this.error(`Warning: ${warning}`);
+    return { spec, plan };
   }
 
   // Deployments
-  async listDeployments(projectName?: string, limit = 10): Promise<void> {
-    const params: any = { limit };
-    if (projectName) params.projectName = projectName;
-    const response = await this.api.get('/v6/deployments', { params });
-    this.output(response.data);
-  }
-
-  async getDeployment(idOrUrl: string): Promise<void> {
-    // Extract deployment ID from URL if needed
-    const deploymentId = idOrUrl.includes('.') ? idOrUrl.split('.')[0].split('//')[1] : idOrUrl;
-    const response = await this.api.get(`/v13/deployments/${deploymentId}`);
-    this.output(response.data);
-  }
-
-  async deploy(project: string, ref = 'main', prod = false): Promise<void> {
-    const data: any = {
-      name: project,
-      target: prod ? 'production' : 'preview',
-      gitSource: {
-        type: 'github',
-        ref,
-      },
-    };
-    const response = await this.api.post('/v13/deployments', data);
-    this.output(response.data);
+  async listDeployments(projectName?: string, options: ListOptions = { limit: 10 }): Promise<void> {
+    this.outputList('deployments', await this.api.listDeployments(projectName, options));
+  }
+
+  async getDeployment(ref: string): Promise<void> {
+    this.output(await this.api.getDeployment(ref), 'deployment');
+  }
+
+  async deploy(project: string, options: GitDeployOptions = {}, wait?: WaitOptions): Promise<void> {
+    await this.outputDeployment(await this.api.createDeployment(project, options.ref, options.prod, options.sha), wait);
+  }
+
+  async deployDirectory(project: string, dir: string, options: DirectoryDeployOptions = {}, wait?: WaitOptions): Promise<void> {
+    const files = collectFiles(dir, { prebuilt: options.prebuilt });
+    this.error(`Deploying ${files.length} files (${formatBytes(files.reduce((total, f) => total + f.size, 0))}) from ${dir}`);
+    const deployment = await this.api.createFileDeployment(project, files, {
+      prod: options.prod,
+      projectSettings: options.projectSettings,
+      onUpload: (count, bytes) => this.error(`Uploading ${count} new files (${formatBytes(bytes)})`),
+    });
+    await this.outputDeployment(deployment, wait);
   }
 
-  async redeploy(deploymentId: string): Promise<void> {
-    const response = await this.api.post(`/v13/deployments/${deploymentId}/redeploy`);
-    this.output(response.data);
+  async redeploy(ref: string, wait?: WaitOptions): Promise<void> {
+    await this.outputDeployment(await this.api.redeploy(ref), wait);
+  }
+
+  async promoteDeployment(ref: string, wait?: WaitOptions): Promise<void> {
+    const deployment = await this.api.getDeployment(ref);
+    const project = await this.api.getProject(deployment.projectId || deployment.name!);
+    const current = project.targets?.production;
+    await this.confirmAction(
+      `Promote ${deployment.url} to production for ${project.name}?` +
+        (current ? ` It replaces ${current.url} (${current.id}).` : ''),
+    );
+    await this.outputDeployment(await this.api.promoteDeployment(deployment.id!), wait);
   }
 
-  async promoteDeployment(deploymentId: string): Promise<void> {
-    const response = await this.api.patch(`/v13/deployments/${deploymentId}`, {
-      target: 'production',
+  async rollback(nameOrId: string, options: RollbackOptions = {}): Promise<void> {
+    const project = await this.api.getProject(nameOrId);
+    const current = project.targets?.production;
+    const target = await this.rollbackTarget(project, options);
+    const targetId = target.id || target.uid!;
+
+    const aliases = current?.id ? (await this.api.listDeploymentAliases(current.id)).map((alias) => alias.alias) : [];
+    await this.confirmAction(
+      `Roll back ${project.name} production\n  from ${current ? describeDeployment(current) : 'none'}\n  to   ${describeDeployment(target)}\n` +
+        `Aliases to move: ${aliases.join(', ') || 'none'}\nContinue?`,
+    );
+    await this.api.rollbackDeployment(project.id, targetId);
+    if (this.dryRun) return;
+
+    const missing = await this.api.waitForAliases(targetId, aliases, { timeout: options.timeout ?? DEFAULT_ALIAS_TIMEOUT, interval: ALIAS_POLL_INTERVAL });
+    this.output({
+      project: project.name,
+      before: current ? deploymentSummary(current) : null,
+      after: deploymentSummary(target),
+      aliases,
+      aliasesMoved: !missing.length,
     });
-    this.output(response.data);
+    if (missing.length) {
+      this.error(`Aliases not yet pointing at ${targetId}: ${missing.join(', ')}`);
+      process.exitCode = 1;
+    }
   }
 
-  async cancelDeployment(deploymentId: string): Promise<void> {
-    const response = await this.api.patch(`/v13/deployments/${deploymentId}`, {
-      state: 'CANCELED',
+  // --to names the deployment; otherwise go back --steps READY production deployments from the current one
+  private async rollbackTarget(project: Project, options: RollbackOptions): Promise<Deployment> {
+    const currentId = project.targets?.production?.id;
+    if (options.to) {
+      const deployment = await this.api.getDeployment(options.to);
+      if (deployment.projectId !== project.id) throw new VercelError(`Deployment ${options.to} does not belong to ${project.name}`);
+      if ((deployment.readyState ?? deployment.state) !== 'READY') throw new VercelError(`Deployment ${options.to} is not READY`);
+      if (deployment.id === currentId) throw new VercelError(`Deployment ${options.to} is already serving production`);
+      return deployment;
+    }
+
+    // Counted from the current deployment's creation time rather than its place in a list, so a
+    // production that was already rolled back never moves forward
+    const steps = options.steps ?? 1;
+    let current = project.targets?.production;
+    if (currentId && (current?.createdAt ?? current?.created) === undefined) current = await this.api.getDeployment(currentId);
+    const until = current?.createdAt ?? current?.created;
+    const { items } = await this.api.listDeployments(project.id, { target: 'production', state: 'READY', limit: steps, until });
+    const deployment = items[steps - 1];
+    if (!deployment) throw new VercelError(`No READY production deployment ${steps} step(s) before the current one`);
+    return deployment;
+  }
+
+  async history(nameOrId: string, options: ListOptions = {}): Promise<void> {
+    const project = await this.api.getProject(nameOrId);
+    const currentId = project.targets?.production?.id;
+    const { items, pagination } = await this.api.listDeployments(project.id, { ...options, target: 'production' });
+    const rows = items.map((deployment) => ({
+      ...deploymentSummary(deployment),
+      state: deployment.readyState ?? deployment.state,
+      current: (deployment.uid || deployment.id) === currentId,
+    }));
+    this.outputList('history', { items: rows, pagination });
+  }
+
+  // Prints the deployment as returned, or polls it to a terminal state first when waiting
+  private async outputDeployment(deployment: Deployment, wait?: WaitOptions): Promise<void> {
+    if (!wait || this.dryRun) {
+      this.output(deployment, 'deployment');
+      return;
+    }
+    const deploymentId = deployment.id!;
+    const final = await this.api.waitForDeployment(deploymentId, {
+      ...wait,
+      onStateChange: (state, previous) =>
+        this.error(`${new Date().toISOString()} ${deploymentId} ${previous ? `${previous} -> ` : ''}${state}`),
     });
-    this.output(response.data);
+    this.output(final, 'deployment');
+    if (final.readyState !== 'READY') process.exitCode = 1;
   }
 
-  async deleteDeployment(deploymentId: string): Promise<void> {
-    const response = await this.api.delete(`/v13/deployments/${deploymentId}`);
-    this.output(response.data);
+  async cancelDeployment(ref: string): Promise<void> {
+    this.output(await this.api.cancelDeployment(ref), 'deployment');
   }
 
-  async getDeploymentLogs(deploymentId: string, follow = false): Promise<void> {
-    const response = await this.api.get(`/v13/deployments/${deploymentId}/events`);
-    this.output(response.data);
-    
-    // Note: Real following would require WebSocket or polling implementation
-    if (follow) {
-      this.error('Note: --follow functionality requires WebSocket implementation for real-time logs');
+  async deleteDeployment(ref: string): Promise<void> {
+    const deployment = await this.api.getDeployment(ref);
+    const aliases = deployment.alias || [];
+    await this.confirmAction(
+      `Delete deployment ${deployment.url} (${deployment.id || deployment.uid}, ${deployment.readyState ?? deployment.state}, ` +
+        `${deployment.target || 'preview'})?${aliases.length ? ` It is serving ${aliases.join(', ')}.` : ''}`,
+    );
+    this.output(await this.api.deleteDeployment(deployment.id!));
+  }
+
+  // Lists what the policy deletes and only deletes it with --yes. The current production deployment
+  // and aliased deployments (custom domains, branch URLs) are never deleted.
+  async pruneDeployments(projectName: string, policy: RetentionPolicy, concurrency = DEFAULT_PRUNE_CONCURRENCY): Promise<void> {
+    const project = await this.api.getProject(projectName);
+    const [deployments, aliases] = await Promise.all([
+      this.api.listDeployments(project.id, { all: true }),
+      this.api.listAliases(project.name, { all: true }),
+    ]);
+    const protectedIds = new Set(aliases.items.map((alias) => alias.deploymentId).filter((id): id is string => !!id));
+    if (project.targets?.production?.id) protectedIds.add(project.targets.production.id);
+    const candidates = planPrune(deployments.items, policy, protectedIds);
+    const kept = deployments.items.length - candidates.length;
+
+    if (!this.yes) {
+      this.output({ project: project.name, prune: candidates, kept }, 'prune');
+      if (candidates.length) this.error(`${candidates.length} deployment(s) would be deleted, ${kept} kept; pass --yes to delete them`);
+      return;
+    }
+
+    const results = await mapConcurrent(candidates, concurrency, async (candidate) => {
+      try {
+        await this.api.deleteDeployment(candidate.id);
+        return { ...candidate, result: 'deleted' };
+      } catch (error) {
+        this.error(`Could not delete ${candidate.id}: ${(error as Error).message}`);
+        return { ...candidate, result: 'failed', error: (error as Error).message };
+      }
+    });
+    this.output({ project: project.name, prune: results, kept }, 'prune');
+    if (results.some((row) => row.result === 'failed')) process.exitCode = 1;
+  }
+
+  async getDeploymentLogs(ref: string, options: LogOptions = {}): Promise<void> {
+    const format = options.format || 'json';
+    const deploymentId = await this.api.resolveDeploymentId(ref);
+
+    if (!options.follow) {
+      const events = await this.api.getDeploymentEvents(deploymentId, options);
+      if (format === 'text') {
+        events.forEach((event) => this.printEvent(event, format));
+      } else {
+        this.output(events, 'events');
+      }
+      return;
+    }
+
+    const final = await this.api.followDeploymentEvents(deploymentId, options, (event) => this.printEvent(event, format));
+    if (final?.readyState === 'ERROR') {
+      this.error(`Deployment ${deploymentId} finished with state ERROR`);
+      process.exitCode = 1;
     }
   }
 
+  async listDeploymentFiles(ref: string, options: DeploymentFilesOptions = {}): Promise<void> {
+    const deployment = await this.api.getDeployment(ref);
+    const entries = filterFileEntries(flattenFileTree(await this.api.listDeploymentFiles(deployment.id!)), options.path);
+    if (options.path && !entries.length) throw new VercelError(`Nothing at ${options.path} in deployment ${deployment.url}`);
+    if (options.download === undefined) {
+      this.output({ deployment: deployment.id, files: entries }, 'files');
+      return;
+    }
+    await this.downloadDeploymentFiles(deployment, entries, options.download);
+  }
+
+  // Writes files under their tree paths; functions and symlinks have no contents to download
+  private async downloadDeploymentFiles(deployment: Deployment, entries: DeploymentFileEntry[], dir: string): Promise<void> {
+    const files = entries.filter((entry) => entry.type === 'file' && entry.uid);
+    const skipped = entries.filter((entry) => entry.type !== 'directory' && !files.includes(entry)).map((entry) => entry.path);
+    const root = path.resolve(dir);
+    const target = (entry: DeploymentFileEntry) => {
+      const file = path.resolve(root, entry.path);
+      if (!file.startsWith(root + path.sep)) throw new VercelError(`Refusing to write ${entry.path} outside ${dir}`);
+      return file;
+    };
+
+    const existing = files.filter((entry) => fs.existsSync(target(entry)));
+    if (existing.length) await this.confirmAction(`Overwrite ${existing.length} file(s) in ${dir}?`);
+    // Like env-pull, nothing is written in a dry run
+    if (this.dryRun) return;
+
+    await mapConcurrent(files, DOWNLOAD_CONCURRENCY, async (entry) => {
+      const content = await this.api.getDeploymentFile(deployment.id!, entry.uid!, entry.path);
+      fs.mkdirSync(path.dirname(target(entry)), { recursive: true });
+      fs.writeFileSync(target(entry), content);
+    });
+    if (skipped.length) this.error(`Skipped ${skipped.length} entries without downloadable contents: ${skipped.join(', ')}`);
+    this.output({ message: `Downloaded ${files.length} file(s) from ${deployment.url} to ${dir}`, count: files.length, skipped });
+  }
+
+  async listDeploymentFunctions(ref: string): Promise<void> {
+    const deployment = await this.api.getDeployment(ref);
+    const functions = deploymentFunctions(await this.api.listDeploymentBuilds(deployment.id!), deployment);
+    this.output({ deployment: deployment.id, functions }, 'functions');
+  }
+
+  async diffDeployments(fromRef: string, toRef: string): Promise<void> {
+    const from = await this.api.getDeployment(fromRef);
+    const to = await this.api.getDeployment(toRef);
+    const fromFiles = flattenFileTree(await this.api.listDeploymentFiles(from.id!));
+    const toFiles = flattenFileTree(await this.api.listDeploymentFiles(to.id!));
+    this.output(
+      {
+        from: { id: from.id, url: from.url },
+        to: { id: to.id, url: to.url },
+        differences: diffDeployments(from, to, fromFiles, toFiles),
+      },
+      'differences',
+    );
+  }
+
+  private printEvent(event: DeploymentEvent, format: 'json' | 'text'): void {
+    if (format === 'json') {
+      console.log(JSON.stringify(event));
+      return;
+    }
+    const time = eventTime(event);
+    const timestamp = time ? new Date(time).toISOString() : '-'.repeat(24);
+    console.log(`${timestamp} ${(event.type || 'event').padEnd(8)} ${eventText(event).trimEnd()}`);
+  }
+
   // Domains
-  async listDomains(projectName?: string): Promise<void> {
-    const params: any = {};
-    if (projectName) params.projectName = projectName;
-    const response = await this.api.get('/v5/domains', { params });
-    this.output(response.data);
+  async listDomains(projectName?: string, options: ListOptions = {}): Promise<void> {
+    this.outputList('domains', await this.api.listDomains(projectName, options));
   }
 
   async addDomain(project: string, domain: string): Promise<void> {
-    // First get project ID
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    const response = await this.api.post(`/v10/projects/${projectId}/domains`, {
-      name: domain,
-    });
-    this.output(response.data);
+    this.output(await this.api.addDomain(project, domain), 'domain');
   }
 
   async removeDomain(project: string, domain: string): Promise<void> {
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    const response = await this.api.delete(`/v10/projects/${projectId}/domains/${domain}`);
-    this.output(response.data);
+    await this.confirmAction(`Remove domain ${domain} from project ${project}?`);
+    await this.api.removeDomain(project, domain);
+    this.output({ message: `Domain ${domain} removed from ${project}` });
   }
 
   async verifyDomain(domain: string): Promise<void> {
-    const response = await this.api.post(`/v5/domains/${domain}/verify`);
-    this.output(response.data);
+    this.output(await this.api.verifyDomain(domain), 'domain');
   }
 
   async checkDomain(domain: string): Promise<void> {
-    const response = await this.api.get(`/v5/domains/${domain}`);
-    this.output(response.data);
+    this.output({ domain: await this.api.getDomain(domain) }, 'domain');
+  }
+
+  // Adds the domain if needed, compares the records Vercel asks for with what DNS serves now,
+  // offers to create missing ones in a Vercel-hosted zone, then waits for verification
+  async setupDomain(project: string, domain: string, wait: WaitOptions, dnsServers?: string[]): Promise<void> {
+    const resolver = dnsServers?.length ? serverResolver(dnsServers) : this.resolver;
+    let projectDomain: Domain;
+    try {
+      projectDomain = await this.api.getProjectDomain(project, domain);
+      this.error(`${domain} is already added to ${project}`);
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 404) throw error;
+      projectDomain = { ...(await this.api.addDomain(project, domain)), name: domain };
+      this.error(`Added ${domain} to ${project}`);
+    }
+
+    const records = requiredRecords(projectDomain, await this.api.getDomainConfig(domain));
+    let checks = await checkRecords(records, resolver);
+    for (const check of checks) {
+      this.error(`${check.ok ? 'ok     ' : 'missing'} ${check.type} ${check.name} ${check.value}${check.ok ? '' : ` (found: ${check.found.join(', ') || 'none'})`}`);
+    }
+
+    const missing = checks.filter((check) => !check.ok);
+    const zone = projectDomain.apexName || domain;
+    const created: DnsRecordInput[] = [];
+    // Without the records there is nothing to wait for, so a declined prompt checks only once
+    let declined = false;
+    if (missing.length) {
+      const list = missing.map((check) => `  ${check.type} ${check.name} ${check.value}`).join('\n');
+      const prompt = `Create these records in the Vercel DNS zone ${zone}?\n${list}\n`;
+      if (!(await this.isVercelZone(zone))) {
+        this.error(`${zone} does not use Vercel DNS; create these records with your DNS provider:\n${list}`);
+      } else if (this.yes || this.dryRun || (process.stdin.isTTY && (await confirm(prompt)))) {
+        for (const check of missing) {
+          const record = zoneRecord(check, zone);
+          await this.api.createDnsRecord(zone, record);
+          created.push(record);
+        }
+      } else {
+        this.error(`Records not created in ${zone}; pass --yes to create them:\n${list}`);
+        declined = true;
+      }
+    }
+    if (this.dryRun) return;
+
+    const timeout = declined ? 0 : wait.timeout;
+    if (timeout) this.error(`Waiting up to ${timeout / 1000}s for ${domain} to verify`);
+    const status = await this.api.waitForDomain(project, domain, { ...wait, timeout });
+    // Created records may have propagated while waiting
+    if (created.length) checks = await checkRecords(records, resolver);
+    this.output({ project, domain, ...status, created, checks }, 'checks');
+    if (!status.verified || !status.configured) {
+      this.error(`${domain} is ${status.verified ? 'verified' : 'not verified'} and ${status.configured ? 'configured' : 'not configured yet'}`);
+      process.exitCode = 1;
+    }
+  }
+
+  private async isVercelZone(zone: string): Promise<boolean> {
+    try {
+      return (await this.api.getDomain(zone)).serviceType === 'zeit.world';
+    } catch (error) {
+      if (error instanceof ApiError && [403, 404].includes(error.status)) return false;
+      throw error;
+    }
   }
 
   // Environment Variables
-  async listEnvVars(project: string, env?: string): Promise<void> {
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    const params: any = {};
-    if (env) params.target = env;
-    const response = await this.api.get(`/v10/projects/${projectId}/env`, { params });
-    this.output(response.data);
-  }
-
-  async addEnvVar(project: string, key: string, value: string, env = 'production,preview,development'): Promise<void> {
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    const targets = env.split(',');
-    const response = await this.api.post(`/v10/projects/${projectId}/env`, {
-      key,
-      value,
-      target: targets,
-    });
-    this.output(response.data);
-  }
-
-  async removeEnvVar(project: string, key: string, env = 'production'): Promise<void> {
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    // Find the env var by key
-    const envVars = await this.api.get(`/v10/projects/${projectId}/env`);
-    const envVar = envVars.data.envs.find((e: any) => e.key === key);
-    
-    if (!envVar) {
-      this.error(`Environment variable '${key}' not found`);
-      return;
+  async listEnvVars(project: string, env?: string, options: ListOptions = {}): Promise<void> {
+    this.outputList('envs', await this.api.listEnvVars(project, env, options));
+  }
+
+  async addEnvVar(project: string, key: string, value: string, targets: EnvTarget[], options: EnvAddOptions = {}): Promise<void> {
+    this.output(await this.api.addEnvVar(project, key, value, targets, options), 'env');
+  }
+
+  async updateEnvVar(project: string, key: string, selector: EnvVarSelector, changes: Partial<EnvVarInput>): Promise<void> {
+    if (!Object.values(changes).some((value) => value !== undefined)) {
+      throw new UsageError('Nothing to update: pass a value, --value-file, --set-env, --type or --comment', 'env-update');
     }
-    
-    const response = await this.api.delete(`/v10/projects/${projectId}/env/${envVar.id}`);
-    this.output(response.data);
-  }
-
-  async pullEnvVars(project: string, file = '.env.local'): Promise<void> {
-    const projectResponse = await this.api.get(`/v9/projects/${encodeURIComponent(project)}`);
-    const projectId = projectResponse.data.id;
-    
-    const response = await this.api.get(`/v10/projects/${projectId}/env`);
-    const envVars = response.data.envs;
-    
-    const envContent = envVars
-      .map((env: any) => `${env.key}=${env.value}`)
-      .join('\n');
-      
+    const env = await this.api.findEnvVar(project, key, selector);
+    this.output(await this.api.updateEnvVar(project, env.id, changes), 'env');
+  }
+
+  async removeEnvVar(project: string, key: string, targets: EnvTarget[] = ['production'], gitBranch?: string): Promise<void> {
+    const kept = (await this.api.findEnvVars(project, key, { gitBranch }))
+      .filter((env) => envTargets(env).some((target) => targets.includes(target)))
+      .flatMap((env) => envTargets(env).filter((target) => !targets.includes(target)));
+    await this.confirmAction(
+      `Remove ${key} from ${targets.join(', ')}${gitBranch ? ` (branch ${gitBranch})` : ''} in ${project}?` +
+        (kept.length ? ` It stays set for ${[...new Set(kept)].join(', ')}.` : ''),
+    );
+    await this.api.removeEnvVar(project, key, targets, gitBranch);
+    this.output({ message: `Environment variable ${key} removed from ${targets.join(', ')}${gitBranch ? ` (branch ${gitBranch})` : ''}` });
+  }
+
+  async pullEnvVars(project: string, file = '.env.local', target: EnvTarget = 'development', gitBranch?: string): Promise<void> {
+    const envVars = await this.api.listDecryptedEnvVars(project, target);
+
+    // Branch-specific values override the target-wide value of the same key
+    const values = new Map<string, string>();
+    const skipped: string[] = [];
+    const branchVars = gitBranch ? envVars.filter((e) => e.gitBranch === gitBranch) : [];
+    for (const env of [...envVars.filter((e) => !e.gitBranch), ...branchVars]) {
+      if (env.value === undefined) skipped.push(env.key);
+      else values.set(env.key, env.value);
+    }
+    if (skipped.length) this.error(`Skipped ${skipped.length} variable(s) whose values cannot be read: ${skipped.join(', ')}`);
+
+    const envContent = formatEnvFile([...values], `Pulled from Vercel project ${project} (${target}${gitBranch ? `, branch ${gitBranch}` : ''})`);
+    if (fs.existsSync(file)) {
+      if (fs.readFileSync(file, 'utf8') === envContent) {
+        this.output({ message: `${file} is already up to date`, count: values.size });
+        return;
+      }
+      await this.confirmAction(`Overwrite ${file}?`);
+    }
+
+    // Like the API, local files are left alone in a dry run
+    if (this.dryRun) return;
     fs.writeFileSync(file, envContent);
-    this.output({ message: `Environment variables written to ${file}`, count: envVars.length });
+    this.output({ message: `Environment variables written to ${file}`, count: values.size, skipped });
+  }
+
+  async pushEnvVars(project: string, file: string, target: EnvTarget, options: EnvPushOptions = {}): Promise<void> {
+    const local = readEnvFile(file);
+    const remote = await this.api.listDecryptedEnvVars(project, target);
+    const changes = planEnvPush(local, remote, target, options.prune);
+    const keys = (action: EnvChange['action']) => changes.filter((c) => c.action === action).map((c) => c.key);
+
+    const removed = keys('remove');
+    if (removed.length) await this.confirmAction(`Remove ${removed.length} variable(s) missing from ${file} from ${target}: ${removed.join(', ')}?`);
+    for (const change of changes) {
+      await this.api.applyEnvChange(project, change, target, options.type);
+    }
+
+    this.output({
+      target,
+      created: keys('create'),
+      updated: keys('update'),
+      removed: keys('remove'),
+      unchanged: keys('unchanged').length,
+    });
+  }
+
+  async diffEnvVars(project: string, file: string, target: EnvTarget): Promise<void> {
+    const rows = diffEnv(readEnvFile(file), await this.api.listDecryptedEnvVars(project, target), target);
+    this.output({ diff: rows }, 'diff');
   }
 
   // DNS
-  async listDnsRecords(domain: string): Promise<void> {
-    const response = await this.api.get(`/v4/domains/${domain}/records`);
-    this.output(response.data);
+  async listDnsRecords(domain: string, options: ListOptions = {}): Promise<void> {
+    this.outputList('records', await this.api.listDnsRecords(domain, options));
   }
 
-  async addDnsRecord(domain: string, type: string, name: string, value: string, ttl = 3600): Promise<void> {
-    const response = await this.api.post(`/v2/domains/${domain}/records`, {
-      type,
-      name,
-      value,
-      ttl,
-    });
-    this.output(response.data);
+  async addDnsRecord(domain: string, type: string, name: string, value: string, options: DnsAddOptions = {}): Promise<void> {
+    // --mx-priority is an alternative to giving MX data as '10 mail.example.com'
+    const data = options.mxPriority !== undefined && type.toUpperCase() === 'MX' ? `${options.mxPriority} ${value}` : value;
+    let record: DnsRecordInput;
+    try {
+      record = parseRecord(type, name, data, options.ttl);
+    } catch (error) {
+      throw new UsageError((error as Error).message, 'dns-add');
+    }
+    if (options.comment) record.comment = options.comment;
+    this.output(await this.api.createDnsRecord(domain, record));
+  }
+
+  async removeDnsRecord(domain: string, recordId: string): Promise<void> {
+    const record = (await this.api.listDnsRecords(domain, { all: true })).items.find((r) => r.id === recordId);
+    if (!record) throw new VercelError(`DNS record ${recordId} not found in ${domain}`);
+    await this.confirmAction(`Delete DNS record ${recordHost(record.name, domain)} ${record.type} ${record.value} (${recordId})?`);
+    await this.api.removeDnsRecord(domain, recordId);
+    this.output({ message: `DNS record ${recordId} removed from ${domain}` });
+  }
+
+  async exportDnsRecords(domain: string, file?: string): Promise<void> {
+    const records = (await this.api.listDnsRecords(domain, { all: true })).items.map(recordFromApi);
+    const zone = formatZoneFile(domain, records, `${domain} exported from Vercel DNS`);
+    if (this.dryRun) return;
+    if (!file) {
+      process.stdout.write(zone);
+      return;
+    }
+    fs.writeFileSync(file, zone);
+    this.output({ message: `${records.length} DNS records of ${domain} written to ${file}` });
   }
 
-  async removeDnsRecord(recordId: string): Promise<void> {
-    // Note: This endpoint would need domain context, but API structure suggests direct record deletion
-    const response = await this.api.delete(`/v2/domains/records/${recordId}`);
-    this.output(response.data);
+  // Creates the records of a zone file that the zone does not have yet; the diff goes to stderr,
+  // so with --dry-run it shows what would be created
+  async importDnsRecords(domain: string, file: string): Promise<void> {
+    if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+    let parsed: ReturnType<typeof parseZoneFile>;
+    try {
+      parsed = parseZoneFile(fs.readFileSync(file, 'utf8'), domain);
+    } catch (error) {
+      throw new Error(`Could not parse ${file}: ${(error as Error).message}`);
+    }
+    for (const reason of parsed.skipped) this.error(`Skipped ${reason}`);
+
+    const rows = diffZone(parsed.records, (await this.api.listDnsRecords(domain, { all: true })).items);
+    for (const { action, record } of rows) {
+      this.error(`${action} ${record.type} ${recordHost(record.name, domain)} ${record.value}`);
+      if (action === 'create') await this.api.createDnsRecord(domain, record);
+    }
+    this.output(
+      {
+        domain,
+        imported: rows.map(({ action, record }) => ({ action, type: record.type, name: recordHost(record.name, domain), value: record.value, ttl: record.ttl ?? null })),
+      },
+      'imported',
+    );
   }
 
   // Teams
   async listTeams(): Promise<void> {
-    const response = await this.api.get('/v2/teams');
-    this.output(response.data);
+    this.outputList('teams', await this.api.listTeams());
   }
 
   async getTeam(id: string): Promise<void> {
-    const response = await this.api.get(`/v2/teams/${id}`);
-    this.output(response.data);
+    this.output(await this.api.getTeam(id), 'team');
   }
 
   async getUser(): Promise<void> {
-    const response = await this.api.get('/v2/user');
-    this.output(response.data);
+    this.output({ user: await this.api.getUser() }, 'user');
   }
 
   // Secrets (Legacy)
   async listSecrets(): Promise<void> {
-    const response = await this.api.get('/v3/secrets');
-    this.output(response.data);
+    this.output({ secrets: await this.api.listSecrets() }, 'secrets');
   }
 
   async addSecret(name: string, value: string): Promise<void> {
-    const response = await this.api.post('/v3/secrets', { name, value });
-    this.output(response.data);
+    this.output(await this.api.addSecret(name, value));
   }
 
   async removeSecret(name: string): Promise<void> {
-    const response = await this.api.delete(`/v3/secrets/${name}`);
-    this.output(response.data);
+    await this.confirmAction(`Delete secret ${name}?`);
+    this.output(await this.api.removeSecret(name));
   }
 
   // Certificates
-  async listCerts(domain?: string): Promise<void> {
-    const params: any = {};
-    if (domain) params.domain = domain;
-    const response = await this.api.get('/v5/certs', { params });
-    this.output(response.data);
+  async listCerts(domain?: string, options: ListOptions = {}): Promise<void> {
+    this.outputList('certs', await this.api.listCerts(domain, options));
   }
 
   async getCert(id: string): Promise<void> {
-    const response = await this.api.get(`/v5/certs/${id}`);
-    this.output(response.data);
+    this.output(await this.api.getCert(id), 'cert');
+  }
+
+  async issueCert(domains: string[]): Promise<void> {
+    this.output(await this.api.issueCert(domains), 'cert');
+  }
+
+  // The files are checked locally first, so a key that does not match or an expired certificate is
+  // reported without a request
+  async uploadCert(files: { cert: string; key: string; ca: string }): Promise<void> {
+    const [cert, key, ca] = [files.cert, files.key, files.ca].map((file) => {
+      if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+      return fs.readFileSync(file, 'utf8');
+    });
+    const info = inspectCertificate(cert, key);
+    this.error(`Uploading certificate for ${info.cns.join(', ')}, valid until ${new Date(info.expiresAt).toISOString()}`);
+    this.output(await this.api.uploadCert({ cert, key, ca }), 'cert');
+  }
+
+  async removeCert(id: string): Promise<void> {
+    const cert = await this.api.getCert(id);
+    await this.confirmAction(`Remove certificate ${id} for ${cert.cns.join(', ')}?`);
+    await this.api.removeCert(id);
+    this.output({ message: `Certificate ${id} removed` });
+  }
+
+  // Every certificate of the team, and every verified domain attached to a project that no valid
+  // certificate covers; exits 1 when anything expires within `days`, has expired or is missing
+  async checkCertExpiry(days: number, concurrency = DEFAULT_CERT_CONCURRENCY): Promise<void> {
+    const [certs, projects] = await Promise.all([this.api.listCerts(undefined, { all: true }), this.api.listProjects({ all: true })]);
+    const attached = await mapConcurrent(projects.items, concurrency, async (project) =>
+      (await this.api.listProjectDomains(project.id, { all: true })).items
+        .filter((domain) => domain.verified !== false)
+        .map((domain) => ({ name: domain.name, project: project.name })),
+    );
+    const rows = checkCerts(certs.items, attached.flat(), days);
+
+    for (const row of rows) {
+      if (row.status === 'missing') this.error(`${row.domains[0]} (${row.project}) has no valid certificate`);
+      else if (row.status === 'expired') this.error(`${row.cert} (${row.domains.join(', ')}) expired ${-row.daysLeft!} day(s) ago`);
+      else if (row.status === 'expiring') this.error(`${row.cert} (${row.domains.join(', ')}) expires in ${row.daysLeft} day(s)`);
+    }
+    const problems = rows.filter((row) => row.status !== 'ok').length;
+    this.output({ days, ok: problems === 0, expiry: rows }, 'expiry');
+    if (problems) process.exitCode = 1;
+  }
+
+  // Status
+  // One row per project; with --watch it refreshes at the interval, and a refresh that fails is
+  // reported without ending the watch
+  async status(options: StatusOptions = {}): Promise<void> {
+    let previous: ProjectStatus[] | undefined;
+    for (let refresh = 1; ; refresh++) {
+      try {
+        const rows = await this.collectStatus(options);
+        const changes = previous ? statusChanges(previous, rows) : new Map<string, string[]>();
+        if (previous) for (const row of rows) row.changes = changes.get(row.project) || [];
+        this.renderStatus(rows, changes, !!options.watch);
+        previous = rows;
+      } catch (error) {
+        if (!options.watch || !(error instanceof VercelError)) throw error;
+        this.error(`${new Date().toISOString()} Refresh failed: ${error.message}`);
+      }
+      if (!options.watch || (options.count !== undefined && refresh >= options.count)) return;
+      await sleep(options.interval ?? DEFAULT_STATUS_INTERVAL);
+    }
+  }
+
+  private async collectStatus(options: StatusOptions): Promise<ProjectStatus[]> {
+    const concurrency = options.concurrency ?? DEFAULT_STATUS_CONCURRENCY;
+    const projects = options.projects
+      ? await mapConcurrent(options.projects, concurrency, (project) => this.api.getProject(project))
+      : (await this.api.listProjects({ all: true })).items;
+    const rows = await mapConcurrent(projects, concurrency, async (project) => {
+      const [recent, domains] = await Promise.all([
+        this.api.listDeployments(project.id, { limit: STATUS_RECENT_DEPLOYMENTS }),
+        this.api.listProjectDomains(project.id, { all: true }),
+      ]);
+      return projectStatus(project, recent.items, domains.items);
+    });
+    return rows.sort((a, b) => a.project.localeCompare(b.project));
+  }
+
+  // Tables are redrawn in place on a terminal, with the rows that changed in reverse video and the
+  // changes listed below; other formats print one document per refresh
+  private renderStatus(rows: ProjectStatus[], changes: Map<string, string[]>, watch: boolean): void {
+    const updated = new Date().toISOString();
+    if (this.outputFormat !== 'table') {
+      this.output({ updated, status: rows }, 'status');
+      return;
+    }
+    if (this.dryRun) return;
+    const lines = formatOutput(rows, 'status', 'table', this.fields).split('\n');
+    const redraw = watch && process.stdout.isTTY;
+    if (redraw) rows.forEach((row, i) => row.changes?.length && (lines[i + 1] = `\x1b[7m${lines[i + 1]}\x1b[0m`));
+    const footer = [...changes].map(([project, list]) => `* ${project}: ${list.join(', ')}`);
+    const text = [...(watch ? [`Updated ${updated}`] : []), ...lines, ...(footer.length ? ['', ...footer] : []), ...(watch && !redraw ? [''] : [])];
+    console.log(`${redraw ? '\x1b[H\x1b[2J' : ''}${text.join('\n')}`);
   }
 
   // Misc
-  async getUsage(): Promise<void> {
-    const response = await this.api.get('/v1/billing/usage');
-    this.output(response.data);
+  // Totals for the period, optionally per project or day; in table and CSV output the totals are the
+  // last row. Budget breaches go to stderr and fail the command, so it can run as a scheduled check.
+  async getUsage(options: UsageOptions = {}): Promise<void> {
+    const budget = options.budget ? readBudget(options.budget) : undefined;
+    const usage = await this.api.getUsage({ from: options.from, to: options.to });
+    const records = usage.records || [];
+    // Without a breakdown the API's own totals are all there is
+    const totals: UsageMetrics = records.length
+      ? sumUsage(records)
+      : { bandwidth: usage.bandwidth ?? 0, functionInvocations: usage.functionInvocations ?? 0, buildMinutes: usage.buildMinutes ?? 0 };
+    const start = usage.period?.start ?? options.from;
+    const end = usage.period?.end ?? options.to;
+    const period = { from: start !== undefined ? new Date(start).toISOString() : null, to: end !== undefined ? new Date(end).toISOString() : null };
+    const breaches = budget ? checkBudget(budget, records, totals) : [];
+
+    const result: any = { period, totals };
+    if (options.groupBy) {
+      result.groupBy = options.groupBy;
+      result.usage = groupUsage(records, options.groupBy);
+    }
+    if (budget) result.budget = { ok: !breaches.length, breaches };
+
+    if (this.outputFormat === 'table' || this.outputFormat === 'csv') {
+      const rows = options.groupBy ? [...result.usage, { [options.groupBy]: 'total', ...totals }] : [totals];
+      this.output(rows);
+    } else {
+      this.output(result, options.groupBy ? 'usage' : 'totals');
+    }
+
+    for (const { scope, metric, limit, used } of breaches) {
+      const show = (value: number) => (metric === 'bandwidth' ? formatBytes(value) : String(value));
+      this.error(`Over budget: ${metric} ${scope === 'total' ? 'in total' : `for ${scope}`} is ${show(used)}, limit ${show(limit)}`);
+    }
+    if (breaches.length) process.exitCode = 1;
+  }
+
+  async listAliases(projectName?: string, options: ListOptions = {}): Promise<void> {
+    this.outputList('aliases', await this.api.listAliases(projectName, options));
+  }
+
+  // Auth profiles
+  async authLogin(name: string, input: CommandInput): Promise<void> {
+    const token = input.token || (process.stdin.isTTY ? undefined : (await readStdin()).trim());
+    if (!token) throw new UsageError('Provide --token or pipe the token on stdin', 'auth');
+
+    const client = new VercelClient(this.clientOptions(input, token));
+    const user = await client.getUser();
+    const team: string | undefined = input.team;
+    const profile: Profile = { token };
+    if (team) {
+      profile.teamId = await client.resolveTeamId(team);
+      if (!team.startsWith('team_')) profile.team = team;
+    }
+    if (input.project) profile.project = input.project;
+
+    this.config.profiles[name] = profile;
+    this.config.currentProfile = name;
+    saveConfig(this.configFile, this.config);
+    this.output({ message: `Logged in as ${user.username} (profile '${name}')`, profile: name, team: profile.team || profile.teamId || null });
+  }
+
+  async authLogout(name?: string): Promise<void> {
+    const profileName = name || this.config.currentProfile;
+    if (!profileName || !this.config.profiles[profileName]) throw new VercelError(`Unknown profile '${profileName ?? ''}'`);
+    delete this.config.profiles[profileName];
+    if (this.config.currentProfile === profileName) {
+      this.config.currentProfile = Object.keys(this.config.profiles)[0];
+    }
+    saveConfig(this.configFile, this.config);
+    this.output({ message: `Removed profile '${profileName}'`, currentProfile: this.config.currentProfile ?? null });
+  }
+
+  async authSwitch(name?: string): Promise<void> {
+    if (!name) throw new UsageError('Profile name required', 'auth');
+    if (!this.config.profiles[name]) throw new VercelError(`Unknown profile '${name}' (run '${PROGRAM} auth list' to see profiles)`);
+    this.config.currentProfile = name;
+    saveConfig(this.configFile, this.config);
+    this.output({ message: `Switched to profile '${name}'` });
+  }
+
+  async authWhoami(input: CommandInput): Promise<void> {
+    await this.connect(input);
+    const user = await this.api.getUser();
+    this.output({
+      profile: this.credentials.profile ?? null,
+      username: user.username,
+      email: user.email ?? null,
+      team: this.credentials.team ?? null,
+      project: this.credentials.project ?? null,
+    });
   }
 
-  async listAliases(projectName?: string): Promise<void> {
-    const params: any = {};
-    if (projectName) params.projectName = projectName;
-    const response = await this.api.get('/v4/aliases', { params });
-    this.output(response.data);
+  async authList(): Promise<void> {
+    const profiles = Object.entries(this.config.profiles).map(([name, profile]) => ({
+      name,
+      current: name === this.config.currentProfile,
+      team: profile.team || profile.teamId || null,
+      project: profile.project ?? null,
+    }));
+    this.output({ profiles }, 'profiles');
   }
 
-  // Command parser and router
-  async run(): Promise<void> {
-    const args = process.argv.slice(2);
-    const command = args[0];
+  // Command router: resolves the command from the registry, validates its arguments and dispatches
+  async run(argv: string[] = process.argv.slice(2)): Promise<void> {
+    const [name, ...rest] = argv;
 
     try {
-      switch (command) {
-        // Projects
-        case 'projects':
-          await this.listProjects();
-          break;
-        case 'project':
-          if (!args[1]) throw new Error('Project name or ID required');
-          await this.getProject(args[1]);
-          break;
-        case 'project-create':
-          if (!args[1]) throw new Error('Project name required');
-          const framework = this.getFlag('--framework', args);
-          const gitRepo = this.getFlag('--git-repo', args);
-          await this.createProject(args[1], framework, gitRepo);
-          break;
-        case 'project-delete':
-          if (!args[1]) throw new Error('Project name or ID required');
-          await this.deleteProject(args[1]);
-          break;
-        case 'project-link':
-          if (!args[1]) throw new Error('Project name or ID required');
-          const repo = this.getFlag('--repo', args);
-          if (!repo) throw new Error('--repo flag required');
-          await this.linkProject(args[1], repo);
-          break;
-
-        // Deployments
-        case 'deployments':
-          const project = this.getFlag('--project', args);
-          const limit = parseInt(this.getFlag('--limit', args) || '10');
-          await this.listDeployments(project, limit);
-          break;
-        case 'deployment':
-          if (!args[1]) throw new Error('Deployment ID or URL required');
-          await this.getDeployment(args[1]);
-          break;
-        case 'deploy':
-          if (!args[1]) throw new Error('Project name required');
-          const ref = this.getFlag('--ref', args) || 'main';
-          const prod = args.includes('--prod');
-          await this.deploy(args[1], ref, prod);
-          break;
-        case 'redeploy':
-          if (!args[1]) throw new Error('Deployment ID required');
-          await this.redeploy(args[1]);
-          break;
-        case 'promote':
-          if (!args[1]) throw new Error('Deployment ID required');
-          await this.promoteDeployment(args[1]);
-          break;
-        case 'cancel':
-          if (!args[1]) throw new Error('Deployment ID required');
-          await this.cancelDeployment(args[1]);
-          break;
-        case 'delete-deployment':
-          if (!args[1]) throw new Error('Deployment ID required');
-          await this.deleteDeployment(args[1]);
-          break;
-        case 'logs':
-          if (!args[1]) throw new Error('Deployment ID required');
-          const follow = args.includes('--follow');
-          await this.getDeploymentLogs(args[1], follow);
-          break;
-
-        // Domains
-        case 'domains':
-          const domainProject = this.getFlag('--project', args);
-          await this.listDomains(domainProject);
-          break;
-        case 'domain-add':
-          if (!args[1] || !args[2]) throw new Error('Project and domain required');
-          await this.addDomain(args[1], args[2]);
-          break;
-        case 'domain-remove':
-          if (!args[1] || !args[2]) throw new Error('Project and domain required');
-          await this.removeDomain(args[1], args[2]);
-          break;
-        case 'domain-verify':
-          if (!args[1]) throw new Error('Domain required');
-          await this.verifyDomain(args[1]);
-          break;
-        case 'domain-check':
-          if (!args[1]) throw new Error('Domain required');
-          await this.checkDomain(args[1]);
-          break;
-
-        // Environment Variables
-        case 'env-list':
-          if (!args[1]) throw new Error('Project name required');
-          const envTarget = this.getFlag('--env', args);
-          await this.listEnvVars(args[1], envTarget);
-          break;
-        case 'env-add':
-          if (!args[1] || !args[2] || !args[3]) throw new Error('Project, key, and value required');
-          const envTargets = this.getFlag('--env', args) || 'production,preview,development';
-          await this.addEnvVar(args[1], args[2], args[3], envTargets);
-          break;
-        case 'env-remove':
-          if (!args[1] || !args[2]) throw new Error('Project and key required');
-          const removeEnv = this.getFlag('--env', args) || 'production';
-          await this.removeEnvVar(args[1], args[2], removeEnv);
-          break;
-        case 'env-pull':
-          if (!args[1]) throw new Error('Project name required');
-          const file = this.getFlag('--file', args) || '.env.local';
-          await this.pullEnvVars(args[1], file);
-          break;
-
-        // DNS
-        case 'dns-list':
-          if (!args[1]) throw new Error('Domain required');
-          await this.listDnsRecords(args[1]);
-          break;
-        case 'dns-add':
-          if (!args[1]) throw new Error('Domain required');
-          const dnsType = this.getFlag('--type', args);
-          const dnsName = this.getFlag('--name', args);
-          const dnsValue = this.getFlag('--value', args);
-          const ttl = parseInt(this.getFlag('--ttl', args) || '3600');
-          if (!dnsType || !dnsName || !dnsValue) {
-            throw new Error('--type, --name, and --value flags required');
-          }
-          await this.addDnsRecord(args[1], dnsType, dnsName, dnsValue, ttl);
-          break;
-        case 'dns-remove':
-          if (!args[1]) throw new Error('Record ID required');
-          await this.removeDnsRecord(args[1]);
-          break;
-
-        // Teams
-        case 'teams':
-          await this.listTeams();
-          break;
-        case 'team':
-          if (!args[1]) throw new Error('Team ID required');
-          await this.getTeam(args[1]);
-          break;
-        case 'user':
-          await this.getUser();
-          break;
-
-        // Secrets
-        case 'secrets':
-          await this.listSecrets();
-          break;
-        case 'secret-add':
-          if (!args[1] || !args[2]) throw new Error('Secret name and value required');
-          await this.addSecret(args[1], args[2]);
-          break;
-        case 'secret-remove':
-          if (!args[1]) throw new Error('Secret name required');
-          await this.removeSecret(args[1]);
-          break;
-
-        // Certs
-        case 'certs':
-          const certDomain = this.getFlag('--domain', args);
-          await this.listCerts(certDomain);
-          break;
-        case 'cert':
-          if (!args[1]) throw new Error('Certificate ID required');
-          await this.getCert(args[1]);
-          break;
-
-        // Misc
-        case 'usage':
-          await this.getUsage();
-          break;
-        case 'aliases':
-          const aliasProject = this.getFlag('--project', args);
-          await this.listAliases(aliasProject);
-          break;
+      if (!name) {
+        this.error(this.help());
+        process.exit(1);
+      }
+      if (name === '--help' || name === '-h') {
+        console.log(this.help());
+        return;
+      }
 
-        default:
-          this.error(`Unknown command: ${command}`);
-          this.showHelp();
-          process.exit(1);
+      const command = COMMANDS.find((c) => c.name === name);
+      if (!command) {
+        const hint = suggest(name, COMMANDS.map((c) => c.name));
+        throw new UsageError(`Unknown command: ${name}${hint ? ` (did you mean ${hint}?)` : ''}`);
+      }
+      if (rest.includes('--help') || rest.includes('-h')) {
+        console.log(formatCommandHelp(PROGRAM, command, GLOBAL_FLAGS));
+        return;
       }
+
+      // Profile settings are read ahead of parsing so the default project can fill in for <project>
+      this.configFile = configPath(peekFlag(rest, 'config'));
+      this.config = loadConfig(this.configFile);
+      this.credentials = resolveCredentials(this.config, { profile: peekFlag(rest, 'profile'), team: peekFlag(rest, 'team') });
+
+      const defaults = command.offline ? {} : { project: this.credentials.project };
+      const input = parseCommandArgs(command, rest, GLOBAL_FLAGS, defaults);
+      this.outputFormat = input.output;
+      this.fields = input.fields;
+      this.yes = !!input.yes;
+      this.dryRun = !!input.dryRun;
+
+      if (!command.offline) await this.connect(input);
+      await command.run(this, input);
+      if (this.dryRun) console.log(formatOutput({ dryRun: true, requests: this.dryRunRequests }, 'requests', this.outputFormat, this.fields));
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof VercelError) {
+        this.error(error.message);
+      } else if (error instanceof UsageError) {
+        this.error(`Error: ${error.message}`);
+        this.error(error.command ? `Run '${PROGRAM} ${error.command} --help' for usage.` : `Run '${PROGRAM} help' for a list of commands.`);
+      } else if (error instanceof Error) {
         this.error(`Error: ${error.message}`);
       } else {
         this.error(`Unknown error: ${error}`);
@@ -535,81 +1142,770 @@ class VercelCLI {
     }
   }
 
-  private getFlag(flag: string, args: string[]): string | undefined {
-    const index = args.indexOf(flag);
-    return index !== -1 && index + 1 < args.length ? args[index + 1] : undefined;
-  }
-
-  private showHelp(): void {
-    const help = `
-Vercel CLI Plugin - Comprehensive Vercel API wrapper
-
-USAGE:
-  npx ts-node cli.ts <command> [args] [flags]
-
-PROJECTS:
-  projects                                  List all projects
-  project <name-or-id>                     Get project details
-  project-create <name> [--framework f] [--git-repo owner/repo]
-  project-delete <name-or-id>              Delete project
-  project-link <name-or-id> --repo owner/repo
-
-DEPLOYMENTS:
-  deployments [--project name] [--limit 10]  List deployments
-  deployment <id-or-url>                    Get deployment details
-  deploy <project> [--ref main] [--prod]   Trigger deployment
-  redeploy <deployment-id>                  Redeploy existing
-  promote <deployment-id>                   Promote to production
-  cancel <deployment-id>                    Cancel running deployment
-  delete-deployment <deployment-id>         Delete deployment
-  logs <deployment-id> [--follow]          Get deployment logs
-
-DOMAINS:
-  domains [--project name]                  List domains
-  domain-add <project> <domain>            Add domain to project
-  domain-remove <project> <domain>         Remove domain
-  domain-verify <domain>                   Verify domain
-  domain-check <domain>                    Check domain status
-
-ENVIRONMENT:
-  env-list <project> [--env prod|prev|dev] List env vars
-  env-add <project> <key> <value> [--env production,preview,development]
-  env-remove <project> <key> [--env production]
-  env-pull <project> [--file .env.local]   Pull env vars to file
-
-DNS:
-  dns-list <domain>                        List DNS records
-  dns-add <domain> --type A --name @ --value 1.2.3.4 [--ttl 3600]
-  dns-remove <record-id>                   Remove DNS record
-
-TEAMS:
-  teams                                    List teams
-  team <id>                                Team details
-  user                                     Current user info
-
-SECRETS:
-  secrets                                  List secrets
-  secret-add <name> <value>                Create secret
-  secret-remove <name>                     Delete secret
-
-CERTIFICATES:
-  certs [--domain domain]                  List certificates
-  cert <id>                                Certificate details
-
-MISC:
-  usage                                    Current usage/billing info
-  aliases [--project name]                 List aliases
-
-ENVIRONMENT VARIABLES:
-  VERCEL_TOKEN       - Required: Your Vercel API token
-  VERCEL_TEAM_ID     - Optional: Team ID for team-scoped operations
-`;
-    this.error(help);
+  private clientOptions(input: CommandInput, token: string): ClientOptions {
+    const { VERCEL_API_URL, VERCEL_RETRIES, VERCEL_REQUEST_TIMEOUT } = process.env;
+    return {
+      token,
+      // Points the CLI at another API, such as the mock server in test/
+      baseURL: VERCEL_API_URL || undefined,
+      retries: input.retries ?? (VERCEL_RETRIES ? parseInt(VERCEL_RETRIES, 10) : DEFAULT_RETRIES),
+      timeout: input.requestTimeout ?? (VERCEL_REQUEST_TIMEOUT ? parseDuration(VERCEL_REQUEST_TIMEOUT) : DEFAULT_REQUEST_TIMEOUT),
+      onRetry: (message) => this.error(message),
+      ...(input.dryRun && { onDryRun: (request: DryRunRequest) => this.dryRunRequests.push(maskRequest(request)) }),
+    };
+  }
+
+  // Creates the client from the resolved credentials, turning a team slug into its ID
+  private async connect(input: CommandInput): Promise<void> {
+    if (this.client) return;
+    const { token, team } = this.credentials;
+    if (!token) throw new Error(`VERCEL_TOKEN not found in environment variables (or run '${PROGRAM} auth login')`);
+    const options = this.clientOptions(input, token);
+    const teamId = team ? await new VercelClient(options).resolveTeamId(team) : undefined;
+    this.client = new VercelClient({ ...options, teamId });
+  }
+
+  help(commandName?: string): string {
+    if (!commandName) {
+      return formatHelp(PROGRAM, HELP_TITLE, COMMANDS, GLOBAL_FLAGS, HELP_FOOTER);
+    }
+    const command = COMMANDS.find((c) => c.name === commandName);
+    if (!command) throw new UsageError(`Unknown command: ${commandName}`);
+    return formatCommandHelp(PROGRAM, command, GLOBAL_FLAGS);
   }
 }
 
+const PROGRAM = 'vercel.sh';
+const HELP_TITLE = 'Vercel CLI Plugin - Comprehensive Vercel API wrapper';
+const HELP_FOOTER = `ENVIRONMENT VARIABLES:
+  VERCEL_TOKEN       - Your Vercel API token (required unless an auth profile is configured; the current profile takes precedence)
+  VERCEL_TEAM_ID     - Optional: Team ID for team-scoped operations
+  VERCEL_PROFILE     - Optional: Default for --profile
+  VERCEL_CONFIG      - Optional: Default for --config
+  VERCEL_ENV_FILE    - Optional: Default for --env-file
+  VERCEL_RETRIES     - Optional: Default for --retries
+  VERCEL_REQUEST_TIMEOUT - Optional: Default for --request-timeout
+  VERCEL_API_URL     - Optional: API base URL (default: https://api.vercel.com)`;
+
+const GLOBAL_FLAGS: FlagSpec[] = [
+  { name: 'output', alias: 'o', type: 'string', choices: OUTPUT_FORMATS, default: 'json', description: 'Output format' },
+  { name: 'fields', type: 'list', description: 'Columns to include, by name or dotted path (e.g. meta.githubCommitRef)' },
+  { name: 'profile', type: 'string', description: 'Auth profile to use (see auth list)' },
+  { name: 'team', type: 'string', description: 'Team ID or slug, overriding the profile or VERCEL_TEAM_ID' },
+  { name: 'config', type: 'string', description: `Profile config file (default: ${DEFAULT_CONFIG_FILE})` },
+  { name: 'env-file', type: 'string', description: `dotenv file to load (default: ${DEFAULT_ENV_FILE})` },
+  { name: 'retries', type: 'number', description: `Retries for rate-limited and transient failures (default: ${DEFAULT_RETRIES})` },
+  { name: 'request-timeout', type: 'duration', description: 'Timeout for each HTTP request (default: 30s)' },
+  { name: 'yes', alias: 'y', type: 'boolean', description: 'Skip confirmation prompts' },
+  { name: 'dry-run', type: 'boolean', description: 'Print the requests that would change anything instead of sending them' },
+  { name: 'help', alias: 'h', type: 'boolean', description: 'Show help for the command' },
+];
+
+const LIST_FLAGS: FlagSpec[] = [
+  { name: 'all', alias: 'a', type: 'boolean', description: 'Follow pagination and return every page' },
+  { name: 'limit', alias: 'n', type: 'number', description: 'Return at most n items, across pages' },
+  { name: 'since', type: 'time', description: 'Only items after this time (timestamp, ISO date or 30m/2h/1d)' },
+  { name: 'until', type: 'time', description: 'Only items before this time (timestamp, ISO date or 30m/2h/1d)' },
+];
+
+const WAIT_FLAGS: FlagSpec[] = [
+  { name: 'wait', alias: 'w', type: 'boolean', description: 'Poll until the deployment is READY, ERROR or CANCELED' },
+  { name: 'timeout', type: 'duration', default: DEFAULT_WAIT_TIMEOUT, description: 'Give up waiting after this long (default: 15m)' },
+  { name: 'interval', type: 'duration', default: DEFAULT_WAIT_INTERVAL, description: 'Time between polls (default: 5s)' },
+];
+
+const listOptions = (input: CommandInput, defaultLimit?: number): ListOptions => ({
+  all: input.all,
+  limit: input.limit ?? (input.all ? undefined : defaultLimit),
+  since: input.since,
+  until: input.until,
+});
+
+const waitOptions = (input: CommandInput): WaitOptions | undefined =>
+  input.wait ? { timeout: input.timeout, interval: input.interval } : undefined;
+
+const ENV_TARGETS = ['production', 'preview', 'development'];
+const ENV_TYPES = ['plain', 'encrypted', 'sensitive'];
+
+const ENV_TARGET_FLAG: FlagSpec = {
+  name: 'env',
+  alias: 'e',
+  type: 'string',
+  choices: ENV_TARGETS,
+  default: 'development',
+  description: 'Target environment',
+};
+
+const GIT_PROVIDER_FLAG: FlagSpec = {
+  name: 'git-provider',
+  type: 'string',
+  choices: GIT_PROVIDERS,
+  description: 'Git provider of a namespace/name repository; URLs name their own (default: github)',
+};
+
+const VALUE_FILE_FLAG: FlagSpec = { name: 'value-file', type: 'string', description: 'Read the value from a file (- for stdin)' };
+
+const projectArg = { name: 'project', description: 'Project name or ID', required: true };
+const deploymentArg = { name: 'deployment', description: 'Deployment ID, URL or alias, or project@latest / project@production', required: true };
+const domainArg = { name: 'domain', description: 'Domain name', required: true };
+const envKeyArg = { name: 'key', description: 'Variable name', required: true };
+const envValueArg = { name: 'value', description: 'Variable value (omit to use --value-file or stdin)', flag: 'value-file' };
+
+const SPEC_ARG = { name: 'spec', description: 'Spec file written by project-export (YAML or JSON)', required: true };
+const SPEC_FLAGS: FlagSpec[] = [
+  { name: 'name', type: 'string', description: "Target this project instead of the spec's name" },
+  { name: 'prune', type: 'boolean', description: 'Also remove domains, env vars and DNS records missing from the spec' },
+];
+
+const COMMANDS: CommandSpec<VercelCLI>[] = [
+  // Projects
+  {
+    name: 'projects',
+    group: 'projects',
+    description: 'List all projects',
+    flags: LIST_FLAGS,
+    run: (cli, input) => cli.listProjects(listOptions(input)),
+  },
+  {
+    name: 'project',
+    group: 'projects',
+    description: 'Get project details',
+    positionals: [projectArg],
+    run: (cli, input) => cli.getProject(input.project),
+  },
+  {
+    name: 'project-create',
+    group: 'projects',
+    description: 'Create a project',
+    positionals: [{ name: 'name', description: 'Project name', required: true }],
+    flags: [
+      { name: 'framework', type: 'string', description: 'Framework preset, e.g. nextjs' },
+      { name: 'git-repo', type: 'string', description: 'Git repository as namespace/name or its URL' },
+      GIT_PROVIDER_FLAG,
+    ],
+    run: (cli, input) => cli.createProject(input.name, input.framework, input.gitRepo, input.gitProvider),
+  },
+  {
+    name: 'project-delete',
+    group: 'projects',
+    description: 'Delete project',
+    positionals: [projectArg],
+    run: (cli, input) => cli.deleteProject(input.project),
+  },
+  {
+    name: 'project-link',
+    group: 'projects',
+    description: 'Link a Git repository to a project',
+    positionals: [projectArg],
+    flags: [{ name: 'repo', type: 'string', required: true, description: 'Git repository as namespace/name or its URL' }, GIT_PROVIDER_FLAG],
+    run: (cli, input) => cli.linkProject(input.project, input.repo, input.gitProvider),
+  },
+  {
+    name: 'project-unlink',
+    group: 'projects',
+    description: 'Disconnect the Git repository from a project',
+    positionals: [projectArg],
+    run: (cli, input) => cli.unlinkProject(input.project),
+  },
+  {
+    name: 'project-export',
+    group: 'projects',
+    description: 'Export settings, git link, domains, env vars and DNS as a spec',
+    positionals: [projectArg],
+    flags: [
+      { name: 'file', type: 'string', description: 'Write the spec to this file (.json for JSON, otherwise YAML)' },
+      { name: 'include-values', type: 'boolean', description: 'Include decrypted values of encrypted env vars' },
+    ],
+    run: (cli, input) => cli.exportProject(input.project, input.file, input.includeValues),
+  },
+  {
+    name: 'project-plan',
+    group: 'projects',
+    description: 'Show the changes project-apply would make',
+    positionals: [SPEC_ARG],
+    flags: SPEC_FLAGS,
+    run: (cli, input) => cli.planProject(input.spec, { name: input.name, prune: input.prune }),
+  },
+  {
+    name: 'project-apply',
+    group: 'projects',
+    description: 'Create or update a project to match a spec',
+    positionals: [SPEC_ARG],
+    flags: SPEC_FLAGS,
+    run: (cli, input) => cli.applyProject(input.spec, { name: input.name, prune: input.prune }),
+  },
+
+  // Deployments
+  {
+    name: 'deployments',
+    group: 'deployments',
+    description: 'List deployments (10 unless --limit or --all)',
+    flags: [{ name: 'project', alias: 'p', type: 'string', description: 'Only deployments of this project' }, ...LIST_FLAGS],
+    run: (cli, input) => cli.listDeployments(input.project, listOptions(input, 10)),
+  },
+  {
+    name: 'deployment',
+    group: 'deployments',
+    description: 'Get deployment details',
+    positionals: [deploymentArg],
+    run: (cli, input) => cli.getDeployment(input.deployment),
+  },
+  {
+    name: 'deployment-files',
+    group: 'deployments',
+    description: 'List or download the source and output files of a deployment',
+    positionals: [deploymentArg],
+    flags: [
+      { name: 'path', type: 'string', description: 'Only files at or below this path, e.g. src/pages' },
+      { name: 'download', type: 'string', description: 'Download the files into this directory, keeping their paths' },
+    ],
+    run: (cli, input) => cli.listDeploymentFiles(input.deployment, { path: input.path, download: input.download }),
+  },
+  {
+    name: 'deployment-functions',
+    group: 'deployments',
+    description: 'List the serverless and edge functions of a deployment',
+    positionals: [deploymentArg],
+    run: (cli, input) => cli.listDeploymentFunctions(input.deployment),
+  },
+  {
+    name: 'deployment-diff',
+    group: 'deployments',
+    description: 'Compare the files, env var names, build settings and git source of two deployments',
+    positionals: [
+      { name: 'from', description: 'Deployment to compare from, e.g. the working preview', required: true },
+      { name: 'to', description: 'Deployment to compare to, e.g. project@production', required: true },
+    ],
+    run: (cli, input) => cli.diffDeployments(input.from, input.to),
+  },
+  {
+    name: 'deploy',
+    group: 'deployments',
+    description: 'Trigger deployment from a git ref, or upload a local directory with --dir',
+    positionals: [projectArg],
+    flags: [
+      { name: 'ref', type: 'string', description: "Git branch or tag to deploy (default: the project's production branch)" },
+      { name: 'sha', type: 'string', description: 'Deploy this commit of --ref instead of its latest one' },
+      { name: 'prod', type: 'boolean', description: 'Deploy to production' },
+      { name: 'dir', type: 'string', description: 'Upload and deploy this directory, honoring .vercelignore' },
+      { name: 'prebuilt', type: 'boolean', description: 'Upload the build output in <dir>/.vercel/output without building' },
+      { name: 'framework', type: 'string', description: 'Framework preset for the build' },
+      { name: 'build-command', type: 'string', description: 'Build command override' },
+      { name: 'install-command', type: 'string', description: 'Install command override' },
+      { name: 'output-directory', type: 'string', description: 'Output directory override' },
+      { name: 'root-directory', type: 'string', description: 'Directory inside the upload that holds the project' },
+      ...WAIT_FLAGS,
+    ],
+    run: (cli, input) => {
+      const settings: ProjectSettings = {
+        framework: input.framework,
+        buildCommand: input.buildCommand,
+        installCommand: input.installCommand,
+        outputDirectory: input.outputDirectory,
+        rootDirectory: input.rootDirectory,
+      };
+      const hasSettings = Object.values(settings).some((value) => value !== undefined);
+      if (input.dir === undefined && !input.prebuilt) {
+        if (hasSettings) throw new UsageError('Build settings apply to directory deployments; pass --dir', 'deploy');
+        if (input.sha !== undefined && !/^[0-9a-f]{7,40}$/i.test(input.sha)) throw new UsageError(`--sha must be a commit hash (got '${input.sha}')`, 'deploy');
+        return cli.deploy(input.project, { ref: input.ref, sha: input.sha, prod: input.prod }, waitOptions(input));
+      }
+      if (input.ref !== undefined || input.sha !== undefined) throw new UsageError('--ref and --sha cannot be combined with --dir or --prebuilt', 'deploy');
+      return cli.deployDirectory(
+        input.project,
+        input.dir ?? '.',
+        { prod: input.prod, prebuilt: input.prebuilt, projectSettings: hasSettings ? settings : undefined },
+        waitOptions(input),
+      );
+    },
+  },
+  {
+    name: 'redeploy',
+    group: 'deployments',
+    description: 'Redeploy existing',
+    positionals: [deploymentArg],
+    flags: WAIT_FLAGS,
+    run: (cli, input) => cli.redeploy(input.deployment, waitOptions(input)),
+  },
+  {
+    name: 'promote',
+    group: 'deployments',
+    description: 'Promote to production',
+    positionals: [deploymentArg],
+    flags: WAIT_FLAGS,
+    run: (cli, input) => cli.promoteDeployment(input.deployment, waitOptions(input)),
+  },
+  {
+    name: 'rollback',
+    group: 'deployments',
+    description: 'Point production back at an earlier production deployment',
+    positionals: [projectArg],
+    flags: [
+      { name: 'to', type: 'string', description: 'Deployment to roll back to (ID, URL or alias)' },
+      { name: 'steps', type: 'number', description: 'Go back this many READY production deployments (default: 1)' },
+      { name: 'timeout', type: 'duration', default: DEFAULT_ALIAS_TIMEOUT, description: 'How long to wait for aliases to move (default: 60s)' },
+    ],
+    run: (cli, input) => {
+      if (input.to && input.steps !== undefined) throw new UsageError('Pass either --to or --steps, not both', 'rollback');
+      if (input.steps !== undefined && input.steps < 1) throw new UsageError('--steps must be at least 1', 'rollback');
+      return cli.rollback(input.project, { to: input.to, steps: input.steps, timeout: input.timeout });
+    },
+  },
+  {
+    name: 'history',
+    group: 'deployments',
+    description: 'List production deployments with commit details, marking the current one',
+    positionals: [projectArg],
+    flags: LIST_FLAGS,
+    run: (cli, input) => cli.history(input.project, listOptions(input, 20)),
+  },
+  {
+    name: 'cancel',
+    group: 'deployments',
+    description: 'Cancel running deployment',
+    positionals: [deploymentArg],
+    run: (cli, input) => cli.cancelDeployment(input.deployment),
+  },
+  {
+    name: 'delete-deployment',
+    group: 'deployments',
+    description: 'Delete deployment',
+    positionals: [deploymentArg],
+    run: (cli, input) => cli.deleteDeployment(input.deployment),
+  },
+  {
+    name: 'deployments-prune',
+    group: 'deployments',
+    description: 'Delete old preview deployments by retention policy (lists them unless --yes)',
+    positionals: [projectArg],
+    flags: [
+      { name: 'keep', type: 'number', description: 'Keep the newest n deployments of each branch' },
+      { name: 'older-than', type: 'time', description: 'Only deployments created before this time (ISO date, or 30d for 30 days ago)' },
+      { name: 'state', type: 'list', choices: DEPLOYMENT_STATES, description: 'Only deployments in these states, e.g. ERROR,CANCELED' },
+      { name: 'include-production', type: 'boolean', description: 'Also prune earlier production deployments' },
+      { name: 'concurrency', type: 'number', default: DEFAULT_PRUNE_CONCURRENCY, description: 'Deletions in flight at once' },
+    ],
+    run: (cli, input) => {
+      if (input.keep === undefined && input.olderThan === undefined && input.state === undefined) {
+        throw new UsageError('Pass at least one of --keep, --older-than and --state', 'deployments-prune');
+      }
+      if (input.keep !== undefined && input.keep < 0) throw new UsageError('--keep must be 0 or more', 'deployments-prune');
+      if (input.concurrency < 1) throw new UsageError('--concurrency must be at least 1', 'deployments-prune');
+      const policy = { keep: input.keep, before: input.olderThan, states: input.state, includeProduction: input.includeProduction };
+      return cli.pruneDeployments(input.project, policy, input.concurrency);
+    },
+  },
+  {
+    name: 'logs',
+    group: 'deployments',
+    description: 'Get deployment logs',
+    positionals: [deploymentArg],
+    flags: [
+      { name: 'follow', alias: 'f', type: 'boolean', description: 'Stream events until the deployment finishes; exits 1 on ERROR' },
+      { name: 'since', type: 'time', description: 'Only events after this time (timestamp, ISO date or 30m/2h/1d)' },
+      { name: 'until', type: 'time', description: 'Only events before this time (timestamp, ISO date or 30m/2h/1d)' },
+      { name: 'limit', alias: 'n', type: 'number', description: 'Maximum number of events per request' },
+      { name: 'format', type: 'string', choices: ['json', 'text'], default: 'json', description: 'Raw JSON events or timestamp/type/message lines' },
+    ],
+    run: (cli, input) =>
+      cli.getDeploymentLogs(input.deployment, {
+        follow: input.follow,
+        since: input.since,
+        until: input.until,
+        limit: input.limit,
+        format: input.format,
+      }),
+  },
+
+  // Domains
+  {
+    name: 'domains',
+    group: 'domains',
+    description: 'List domains',
+    flags: [{ name: 'project', alias: 'p', type: 'string', description: 'Only domains of this project' }, ...LIST_FLAGS],
+    run: (cli, input) => cli.listDomains(input.project, listOptions(input)),
+  },
+  {
+    name: 'domain-add',
+    group: 'domains',
+    description: 'Add domain to project',
+    positionals: [projectArg, domainArg],
+    run: (cli, input) => cli.addDomain(input.project, input.domain),
+  },
+  {
+    name: 'domain-remove',
+    group: 'domains',
+    description: 'Remove domain',
+    positionals: [projectArg, domainArg],
+    run: (cli, input) => cli.removeDomain(input.project, input.domain),
+  },
+  {
+    name: 'domain-verify',
+    group: 'domains',
+    description: 'Verify domain',
+    positionals: [domainArg],
+    run: (cli, input) => cli.verifyDomain(input.domain),
+  },
+  {
+    name: 'domain-check',
+    group: 'domains',
+    description: 'Check domain status',
+    positionals: [domainArg],
+    run: (cli, input) => cli.checkDomain(input.domain),
+  },
+  {
+    name: 'domain-setup',
+    group: 'domains',
+    description: 'Add a domain, check its DNS records, create missing ones on Vercel DNS and wait for verification',
+    positionals: [projectArg, domainArg],
+    flags: [
+      { name: 'timeout', type: 'duration', default: DEFAULT_DOMAIN_TIMEOUT, description: 'Give up waiting for verification after this long; 0 checks once (default: 10m)' },
+      { name: 'interval', type: 'duration', default: DEFAULT_DOMAIN_INTERVAL, description: 'Time between verification checks (default: 10s)' },
+      { name: 'dns-server', type: 'list', description: "Check records with these nameservers (ip or ip:port) instead of the system's" },
+    ],
+    run: (cli, input) => cli.setupDomain(input.project, input.domain, { timeout: input.timeout, interval: input.interval }, input.dnsServer),
+  },
+
+  // Environment Variables
+  {
+    name: 'env-list',
+    group: 'environment',
+    description: 'List env vars',
+    positionals: [projectArg],
+    flags: [{ name: 'env', alias: 'e', type: 'string', description: 'Target: production, preview or development' }, ...LIST_FLAGS],
+    run: (cli, input) => cli.listEnvVars(input.project, input.env, listOptions(input)),
+  },
+  {
+    name: 'env-add',
+    group: 'environment',
+    description: 'Add env var, or overwrite it if it exists for the same targets',
+    positionals: [projectArg, envKeyArg, envValueArg],
+    flags: [
+      { name: 'env', alias: 'e', type: 'list', choices: ENV_TARGETS, default: ENV_TARGETS, description: 'Comma-separated targets' },
+      { name: 'type', type: 'string', choices: ENV_TYPES, default: 'encrypted', description: 'Variable type' },
+      { name: 'git-branch', type: 'string', description: 'Only apply to preview deployments of this branch' },
+      { name: 'comment', type: 'string', description: 'Note shown next to the variable' },
+      VALUE_FILE_FLAG,
+    ],
+    run: async (cli, input) => {
+      const value = await readValue(input, 'env-add', true);
+      if (value === undefined) throw new UsageError('Missing value: pass it as an argument, with --value-file or on stdin', 'env-add');
+      await cli.addEnvVar(input.project, input.key, value, input.env, { type: input.type, gitBranch: input.gitBranch, comment: input.comment });
+    },
+  },
+  {
+    name: 'env-update',
+    group: 'environment',
+    description: 'Change the value, targets, type or comment of an env var',
+    positionals: [projectArg, envKeyArg, envValueArg],
+    flags: [
+      { ...ENV_TARGET_FLAG, default: undefined, description: 'Target of the variable to update, when the key exists for several' },
+      { name: 'git-branch', type: 'string', description: 'Update the variable specific to this branch' },
+      { name: 'set-env', type: 'list', choices: ENV_TARGETS, description: 'Replace the targets the variable applies to' },
+      { name: 'type', type: 'string', choices: ENV_TYPES, description: 'New variable type' },
+      { name: 'comment', type: 'string', description: 'New note shown next to the variable' },
+      VALUE_FILE_FLAG,
+    ],
+    run: async (cli, input) =>
+      cli.updateEnvVar(
+        input.project,
+        input.key,
+        { target: input.env, gitBranch: input.gitBranch },
+        { value: await readValue(input, 'env-update'), target: input.setEnv, type: input.type, comment: input.comment },
+      ),
+  },
+  {
+    name: 'env-remove',
+    group: 'environment',
+    description: 'Remove env var from the given targets (kept for the others)',
+    positionals: [projectArg, envKeyArg],
+    flags: [
+      { name: 'env', alias: 'e', type: 'list', choices: ENV_TARGETS, default: ['production'], description: 'Comma-separated targets' },
+      { name: 'git-branch', type: 'string', description: 'Remove the variable specific to this branch' },
+    ],
+    run: (cli, input) => cli.removeEnvVar(input.project, input.key, input.env, input.gitBranch),
+  },
+  {
+    name: 'env-pull',
+    group: 'environment',
+    description: 'Pull env vars to file',
+    positionals: [projectArg],
+    flags: [
+      { name: 'file', type: 'string', default: '.env.local', description: 'File to write' },
+      ENV_TARGET_FLAG,
+      { name: 'git-branch', type: 'string', description: 'Include preview values specific to this branch' },
+    ],
+    run: (cli, input) => cli.pullEnvVars(input.project, input.file, input.env, input.gitBranch),
+  },
+  {
+    name: 'env-push',
+    group: 'environment',
+    description: 'Create or update env vars of one target from a dotenv file',
+    positionals: [projectArg],
+    flags: [
+      { name: 'file', type: 'string', required: true, description: 'dotenv file to read' },
+      { ...ENV_TARGET_FLAG, required: true, default: undefined },
+      { name: 'type', type: 'string', choices: ENV_TYPES, default: 'encrypted', description: 'Type for new variables' },
+      { name: 'prune', type: 'boolean', description: 'Also remove remote variables missing from the file' },
+    ],
+    run: (cli, input) => cli.pushEnvVars(input.project, input.file, input.env, { type: input.type, prune: input.prune }),
+  },
+  {
+    name: 'env-diff',
+    group: 'environment',
+    description: 'Compare a dotenv file with the remote env vars of one target (values masked)',
+    positionals: [projectArg],
+    flags: [{ name: 'file', type: 'string', default: '.env.local', description: 'dotenv file to compare' }, ENV_TARGET_FLAG],
+    run: (cli, input) => cli.diffEnvVars(input.project, input.file, input.env),
+  },
+
+  // DNS
+  {
+    name: 'dns-list',
+    group: 'dns',
+    description: 'List DNS records',
+    positionals: [domainArg],
+    flags: LIST_FLAGS,
+    run: (cli, input) => cli.listDnsRecords(input.domain, listOptions(input)),
+  },
+  {
+    name: 'dns-add',
+    group: 'dns',
+    description: 'Add DNS record',
+    positionals: [domainArg],
+    flags: [
+      { name: 'type', type: 'string', required: true, description: 'Record type: A, AAAA, ALIAS, CAA, CNAME, HTTPS, MX, NS, SRV or TXT' },
+      { name: 'name', type: 'string', required: true, description: 'Subdomain, @ for the apex' },
+      {
+        name: 'value',
+        type: 'string',
+        required: true,
+        description: "Record data as in a zone file, e.g. '10 mail.example.com' (MX), '10 5 5060 sip.example.com' (SRV), '1 . alpn=h2' (HTTPS)",
+      },
+      { name: 'ttl', type: 'number', default: 3600, description: 'Time to live in seconds' },
+      { name: 'mx-priority', type: 'number', description: 'MX priority, when --value is only the mail server' },
+      { name: 'comment', type: 'string', description: 'Note stored with the record' },
+    ],
+    run: (cli, input) =>
+      cli.addDnsRecord(input.domain, input.type, input.name, input.value, { ttl: input.ttl, mxPriority: input.mxPriority, comment: input.comment }),
+  },
+  {
+    name: 'dns-remove',
+    group: 'dns',
+    description: 'Remove DNS record',
+    positionals: [domainArg, { name: 'record-id', description: 'DNS record ID', required: true }],
+    run: (cli, input) => cli.removeDnsRecord(input.domain, input.recordId),
+  },
+  {
+    name: 'dns-export',
+    group: 'dns',
+    description: 'Export DNS records as a BIND zone file',
+    positionals: [domainArg],
+    flags: [{ name: 'file', type: 'string', description: 'Write to this file instead of stdout' }],
+    run: (cli, input) => cli.exportDnsRecords(input.domain, input.file),
+  },
+  {
+    name: 'dns-import',
+    group: 'dns',
+    description: 'Create the records of a BIND zone file that are missing',
+    positionals: [domainArg, { name: 'file', description: 'Zone file', required: true }],
+    run: (cli, input) => cli.importDnsRecords(input.domain, input.file),
+  },
+
+  // Teams
+  {
+    name: 'teams',
+    group: 'teams',
+    description: 'List teams',
+    run: (cli) => cli.listTeams(),
+  },
+  {
+    name: 'team',
+    group: 'teams',
+    description: 'Team details',
+    positionals: [{ name: 'id', description: 'Team ID', required: true }],
+    run: (cli, input) => cli.getTeam(input.id),
+  },
+  {
+    name: 'user',
+    group: 'teams',
+    description: 'Current user info',
+    run: (cli) => cli.getUser(),
+  },
+
+  // Auth profiles
+  {
+    name: 'auth',
+    group: 'auth',
+    description: 'Manage auth profiles: login, logout, whoami, switch, list',
+    positionals: [
+      { name: 'action', description: 'What to do', required: true, choices: ['login', 'logout', 'whoami', 'switch', 'list'] },
+      { name: 'profile-name', description: "Profile name (login defaults to 'default', logout to the current profile)" },
+    ],
+    flags: [
+      { name: 'token', type: 'string', description: 'API token for login (or pipe it on stdin)' },
+      { name: 'project', alias: 'p', type: 'string', description: 'Default project stored with the profile' },
+    ],
+    offline: true,
+    run: (cli, input) => {
+      switch (input.action) {
+        case 'login':
+          return cli.authLogin(input.profileName || 'default', input);
+        case 'logout':
+          return cli.authLogout(input.profileName);
+        case 'switch':
+          return cli.authSwitch(input.profileName);
+        case 'whoami':
+          return cli.authWhoami(input);
+        default:
+          return cli.authList();
+      }
+    },
+  },
+
+  // Secrets
+  {
+    name: 'secrets',
+    group: 'secrets',
+    description: 'List secrets',
+    run: (cli) => cli.listSecrets(),
+  },
+  {
+    name: 'secret-add',
+    group: 'secrets',
+    description: 'Create secret',
+    positionals: [{ name: 'name', description: 'Secret name', required: true }, { name: 'value', description: 'Secret value', required: true }],
+    run: (cli, input) => cli.addSecret(input.name, input.value),
+  },
+  {
+    name: 'secret-remove',
+    group: 'secrets',
+    description: 'Delete secret',
+    positionals: [{ name: 'name', description: 'Secret name', required: true }],
+    run: (cli, input) => cli.removeSecret(input.name),
+  },
+
+  // Certs
+  {
+    name: 'certs',
+    group: 'certificates',
+    description: 'List certificates',
+    flags: [{ name: 'domain', type: 'string', description: 'Only certificates for this domain' }, ...LIST_FLAGS],
+    run: (cli, input) => cli.listCerts(input.domain, listOptions(input)),
+  },
+  {
+    name: 'cert',
+    group: 'certificates',
+    description: 'Certificate details',
+    positionals: [{ name: 'id', description: 'Certificate ID', required: true }],
+    run: (cli, input) => cli.getCert(input.id),
+  },
+  {
+    name: 'cert-issue',
+    group: 'certificates',
+    description: 'Issue a certificate for domains that point at Vercel',
+    positionals: [{ name: 'domains', description: 'Domain names the certificate covers', required: true, variadic: true }],
+    run: (cli, input) => cli.issueCert(input.domains),
+  },
+  {
+    name: 'cert-upload',
+    group: 'certificates',
+    description: 'Upload a custom certificate',
+    flags: [
+      { name: 'cert', type: 'string', required: true, description: 'PEM certificate file' },
+      { name: 'key', type: 'string', required: true, description: 'PEM private key file' },
+      { name: 'ca', type: 'string', required: true, description: 'PEM intermediate certificate chain file' },
+    ],
+    run: (cli, input) => cli.uploadCert({ cert: input.cert, key: input.key, ca: input.ca }),
+  },
+  {
+    name: 'cert-remove',
+    group: 'certificates',
+    description: 'Remove a certificate',
+    positionals: [{ name: 'id', description: 'Certificate ID', required: true }],
+    run: (cli, input) => cli.removeCert(input.id),
+  },
+  {
+    name: 'certs-expiring',
+    group: 'certificates',
+    description: 'Check every certificate and project domain; exits 1 when one expires soon or has none',
+    flags: [
+      { name: 'days', type: 'number', default: DEFAULT_CERT_EXPIRY_DAYS, description: 'Report certificates expiring within this many days' },
+      { name: 'concurrency', type: 'number', default: DEFAULT_CERT_CONCURRENCY, description: 'Projects fetched at once' },
+    ],
+    run: (cli, input) => {
+      if (input.days < 0) throw new UsageError('--days must not be negative', 'certs-expiring');
+      if (input.concurrency < 1) throw new UsageError('--concurrency must be at least 1', 'certs-expiring');
+      return cli.checkCertExpiry(input.days, input.concurrency);
+    },
+  },
+
+  // Status
+  {
+    name: 'status',
+    group: 'misc',
+    description: "Every project's production and latest preview deployment, builds in progress, errors and domains",
+    flags: [
+      { name: 'projects', type: 'list', description: 'Only these projects (names or IDs)' },
+      { name: 'watch', alias: 'w', type: 'boolean', description: 'Refresh at --interval and highlight what changed' },
+      { name: 'interval', type: 'duration', default: DEFAULT_STATUS_INTERVAL, description: 'Time between refreshes (default: 10s)' },
+      { name: 'count', type: 'number', description: 'Stop watching after this many refreshes (default: until interrupted)' },
+      { name: 'concurrency', type: 'number', default: DEFAULT_STATUS_CONCURRENCY, description: 'Projects fetched at once' },
+    ],
+    run: (cli, input) => {
+      if (input.concurrency < 1) throw new UsageError('--concurrency must be at least 1', 'status');
+      return cli.status({ projects: input.projects, watch: input.watch, interval: input.interval, count: input.count, concurrency: input.concurrency });
+    },
+  },
+
+  // Misc
+  {
+    name: 'usage',
+    group: 'misc',
+    description: 'Bandwidth, function invocations and build minutes, optionally per project or day',
+    flags: [
+      { name: 'from', type: 'time', description: 'Start of the period (timestamp, ISO date or 30d; default: current billing period)' },
+      { name: 'to', type: 'time', description: 'End of the period (timestamp, ISO date or 1d; default: now)' },
+      { name: 'group-by', type: 'string', choices: ['project', 'day'], description: 'Break the totals down per project or per day' },
+      { name: 'budget', type: 'string', description: 'YAML/JSON file of limits under total and projects; exits 1 when one is crossed' },
+    ],
+    run: (cli, input) => {
+      if (input.from !== undefined && input.to !== undefined && input.from > input.to) {
+        throw new UsageError('--from must be before --to', 'usage');
+      }
+      return cli.getUsage({ from: input.from, to: input.to, groupBy: input.groupBy, budget: input.budget });
+    },
+  },
+  {
+    name: 'aliases',
+    group: 'misc',
+    description: 'List aliases',
+    flags: [{ name: 'project', alias: 'p', type: 'string', description: 'Only aliases of this project' }, ...LIST_FLAGS],
+    run: (cli, input) => cli.listAliases(input.project, listOptions(input)),
+  },
+  {
+    name: 'help',
+    group: 'misc',
+    description: 'Show help for all commands or one command',
+    positionals: [{ name: 'command', description: 'Command to describe' }],
+    offline: true,
+    run: async (cli, input) => console.log(cli.help(input.command)),
+  },
+  {
+    name: 'completion',
+    group: 'misc',
+    description: 'Print a shell completion script',
+    positionals: [{ name: 'shell', description: COMPLETION_SHELLS.join(', '), required: true }],
+    offline: true,
+    run: async (_cli, input) => console.log(completionScript(input.shell, PROGRAM, COMMANDS, GLOBAL_FLAGS)),
+  },
+];
+
 // Run the CLI
 if (require.main === module) {
+  // Load environment variables
+  dotenv.config({ path: envFilePath(peekFlag(process.argv.slice(2), 'env-file')) });
+
   const cli = new VercelCLI();
   cli.run().catch((error) => {
     console.error('Fatal error:', error.message);
@@ -0,0 +1,848 @@
+import { AxiosInstance } from 'axios';
+import * as fs from 'fs';
+import { mapConcurrent, sleep } from './async';
+import { ApiError, VercelError } from './errors';
+import { EnvChange, envTargets } from './envfile';
+import { createHttpClient, DryRunRequest } from './http';
+import { SpecChange } from './spec';
+import { LocalFile } from './upload';
+import {
+  Alias,
+  Cert,
+  Deployment,
+  DeploymentBuild,
+  DeploymentCommit,
+  DeploymentEvent,
+  DeploymentFileNode,
+  DeploymentListOptions,
+  DeploymentRef,
+  DeploymentState,
+  DnsRecord,
+  DnsRecordInput,
+  Domain,
+  DomainConfig,
+  DomainStatus,
+  EnvListOptions,
+  EnvTarget,
+  EnvType,
+  EnvVar,
+  EnvVarInput,
+  EnvVarSelector,
+  EventOptions,
+  FileDeploymentOptions,
+  GitProvider,
+  GitRepository,
+  ListOptions,
+  ListResult,
+  ParsedGitRepository,
+  Project,
+  ProjectSettings,
+  ProjectState,
+  Secret,
+  Team,
+  Usage,
+  User,
+  WaitOptions,
+} from './types';
+
+export interface ClientOptions {
+  token: string;
+  teamId?: string;
+  baseURL?: string;
+  retries?: number;
+  timeout?: number;
+  onRetry?: (message: string) => void;
+  onDryRun?: (request: DryRunRequest) => void;
+}
+
+export const DEFAULT_BASE_URL = 'https://api.vercel.com';
+
+export const TERMINAL_STATES: DeploymentState[] = ['READY', 'ERROR', 'CANCELED'];
+
+export const GIT_PROVIDERS: GitProvider[] = ['github', 'gitlab', 'bitbucket'];
+
+// Build settings a project and a deployment carry, in the order specs and diffs list them
+export const PROJECT_SETTING_KEYS: (keyof ProjectSettings)[] = [
+  'framework',
+  'buildCommand',
+  'installCommand',
+  'outputDirectory',
+  'rootDirectory',
+  'devCommand',
+];
+
+const GIT_HOSTS: Record<string, GitProvider> = { 'github.com': 'github', 'gitlab.com': 'gitlab', 'bitbucket.org': 'bitbucket' };
+
+const MAX_PAGE_SIZE = 100;
+const WRITABLE_ENV_TYPES: EnvType[] = ['plain', 'encrypted', 'sensitive'];
+const EVENT_POLL_INTERVAL = 2000;
+const UPLOAD_CONCURRENCY = 8;
+// Codes the domain verify endpoint answers with while the TXT challenge is not in place yet
+const PENDING_VERIFICATION_CODES = ['missing_txt_record', 'pending_domain_verification'];
+
+const repositoryBody = ({ type, repo }: GitRepository): GitRepository => ({ type, repo });
+
+export function eventTime(event: DeploymentEvent): number {
+  return event.created || event.date || event.payload?.date || event.payload?.created || 0;
+}
+
+export function eventText(event: DeploymentEvent): string {
+  return event.payload?.text ?? event.text ?? '';
+}
+
+export function deploymentCommit(deployment: Deployment): DeploymentCommit {
+  const meta = deployment.meta || {};
+  const pick = (field: string) => meta[`github${field}`] ?? meta[`gitlab${field}`] ?? meta[`bitbucket${field}`];
+  return {
+    sha: pick('CommitSha'),
+    ref: pick('CommitRef'),
+    message: pick('CommitMessage')?.split('\n')[0],
+    author: pick('CommitAuthorLogin') ?? pick('CommitAuthorName'),
+  };
+}
+
+// Tells a deployment ID from a URL or alias (with or without a scheme) and the project@latest /
+// project@production shorthands. IDs without the dpl_ prefix are accepted as long as they have no dot.
+export function parseDeploymentRef(ref: string): DeploymentRef {
+  const shorthand = ref.match(/^([^@/\s]+)@(latest|production)$/);
+  if (shorthand) return { kind: shorthand[2] as 'latest' | 'production', project: shorthand[1] };
+  if (!ref.includes('.') && !ref.includes('/')) return { kind: 'id', id: ref };
+  let host: string;
+  try {
+    host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(ref) ? ref : `https://${ref}`).hostname;
+  } catch {
+    throw new VercelError(`Not a deployment ID or URL: ${ref}`);
+  }
+  return { kind: 'host', host: host.replace(/\.$/, '') };
+}
+
+// Accepts namespace/name, an https URL of the repository or of a page in it, and git@host:namespace/name.
+// A URL's host decides the provider; otherwise it is the given one, or GitHub. Only GitLab nests
+// groups, so GitHub and Bitbucket repositories are always owner/name.
+export function parseGitRepository(value: string, provider?: GitProvider): ParsedGitRepository {
+  const invalid = () => new VercelError(`Not a git repository: ${value} (expected namespace/name or a repository URL)`);
+  let host: string | undefined;
+  let path = value.trim();
+  const ssh = path.match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.+)$/);
+  if (ssh) {
+    [, host, path] = ssh;
+  } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) {
+    try {
+      const url = new URL(path);
+      host = url.hostname;
+      path = url.pathname;
+    } catch {
+      throw invalid();
+    }
+  }
+  if (host) {
+    const detected = GIT_HOSTS[host.toLowerCase().replace(/^www\./, '')];
+    if (!detected) throw new VercelError(`Unknown git host ${host} (expected ${Object.keys(GIT_HOSTS).join(', ')})`);
+    if (provider && provider !== detected) throw new VercelError(`${value} is a ${detected} repository, not ${provider}`);
+    provider = detected;
+  }
+  provider = provider || 'github';
+
+  // GitLab puts repository pages under /-/
+  let segments = path.split('/-/')[0].split('/').filter(Boolean);
+  if (provider !== 'gitlab') {
+    if (segments.length > 2 && !host) throw new VercelError(`${provider} repositories are owner/name, not ${value}`);
+    segments = segments.slice(0, 2);
+  }
+  const name = segments.pop()?.replace(/\.git$/, '');
+  if (!name || !segments.length) throw invalid();
+  const namespace = segments.join('/');
+  return { type: provider, repo: `${namespace}/${name}`, namespace, name };
+}
+
+// The deployments API identifies the linked repository differently for each provider
+function gitSource(link: NonNullable<Project['link']>, ref: string, sha?: string): Record<string, unknown> {
+  const source: Record<string, unknown> = { type: link.type, ref, ...(sha && { sha }) };
+  if (link.type === 'gitlab') source.projectId = link.repoId;
+  else if (link.type === 'bitbucket') Object.assign(source, { owner: link.org, slug: link.repo });
+  else source.repoId = link.repoId;
+  return source;
+}
+
+function eventKey(event: DeploymentEvent): string {
+  return event.payload?.id || event.id || `${eventTime(event)}:${event.type}:${eventText(event)}`;
+}
+
+// Typed wrapper around the Vercel REST API. Methods return resource models and throw
+// VercelError subclasses; nothing is printed and the process is never exited.
+export class VercelClient {
+  private api: AxiosInstance;
+  private projectIds = new Map<string, string>();
+
+  constructor(options: ClientOptions) {
+    if (!options.token) throw new VercelError('A Vercel API token is required');
+
+    this.api = createHttpClient({
+      baseURL: options.baseURL || DEFAULT_BASE_URL,
+      token: options.token,
+      teamId: options.teamId,
+      retries: options.retries,
+      timeout: options.timeout,
+      onRetry: options.onRetry,
+      onDryRun: options.onDryRun,
+    });
+  }
+
+  // Follows pagination.next (passed back as until) and merges every page's items
+  private async paginate<T>(path: string, key: string, params: any = {}, options: ListOptions = {}): Promise<ListResult<T>> {
+    const items: T[] = [];
+    let until = options.until;
+    let next: number | null = null;
+    do {
+      const pageParams: any = { ...params };
+      if (options.since) pageParams.since = options.since;
+      if (until) pageParams.until = until;
+      if (options.limit) pageParams.limit = Math.min(options.limit - items.length, MAX_PAGE_SIZE);
+      else if (options.all) pageParams.limit = MAX_PAGE_SIZE;
+
+      const response = await this.api.get(path, { params: pageParams });
+      items.push(...(response.data[key] || []));
+      next = response.data.pagination?.next ?? null;
+      until = next ?? undefined;
+    } while (next && (options.all || (options.limit && items.length < options.limit)));
+
+    if (options.limit && items.length > options.limit) items.length = options.limit;
+    return { items, pagination: { count: items.length, next } };
+  }
+
+  // Project ID lookups are cached so bulk operations don't refetch the project per call
+  private async projectId(nameOrId: string): Promise<string> {
+    if (!this.projectIds.has(nameOrId)) this.projectIds.set(nameOrId, (await this.getProject(nameOrId)).id);
+    return this.projectIds.get(nameOrId)!;
+  }
+
+  // Projects
+  async listProjects(options: ListOptions = {}): Promise<ListResult<Project>> {
+    return this.paginate('/v10/projects', 'projects', {}, options);
+  }
+
+  async getProject(nameOrId: string): Promise<Project> {
+    const response = await this.api.get(`/v9/projects/${encodeURIComponent(nameOrId)}`);
+    return response.data;
+  }
+
+  // gitRepo is anything parseGitRepository accepts; the provider applies to namespace/name
+  async createProject(name: string, framework?: string, gitRepo?: string, provider?: GitProvider): Promise<Project> {
+    const data: any = { name };
+    if (framework) data.framework = framework;
+    if (gitRepo) data.gitRepository = repositoryBody(parseGitRepository(gitRepo, provider));
+    const response = await this.api.post('/v10/projects', data);
+    return response.data;
+  }
+
+  async updateProject(nameOrId: string, settings: ProjectSettings): Promise<Project> {
+    const response = await this.api.patch(`/v9/projects/${encodeURIComponent(nameOrId)}`, settings);
+    return response.data;
+  }
+
+  async deleteProject(nameOrId: string): Promise<void> {
+    await this.api.delete(`/v9/projects/${encodeURIComponent(nameOrId)}`);
+  }
+
+  async linkProject(nameOrId: string, repo: string, provider?: GitProvider): Promise<Project> {
+    const data = repositoryBody(parseGitRepository(repo, provider));
+    const response = await this.api.post(`/v9/projects/${encodeURIComponent(nameOrId)}/link`, data);
+    return response.data;
+  }
+
+  async unlinkProject(nameOrId: string): Promise<Project> {
+    const response = await this.api.delete(`/v9/projects/${encodeURIComponent(nameOrId)}/link`);
+    return response.data;
+  }
+
+  // Deployments
+  async listDeployments(project?: string, options: DeploymentListOptions = {}): Promise<ListResult<Deployment>> {
+    const params: any = {};
+    // projectId accepts a project name as well
+    if (project) params.projectId = project;
+    if (options.target) params.target = options.target;
+    if (options.state) params.state = options.state;
+    return this.paginate('/v6/deployments', 'deployments', params, options);
+  }
+
+  // Accepts anything parseDeploymentRef does. Hosts are looked up as deployment URLs first, then
+  // as aliases, which covers custom domains.
+  async getDeployment(ref: string): Promise<Deployment> {
+    const parsed = parseDeploymentRef(ref);
+    switch (parsed.kind) {
+      case 'id':
+        return this.fetchDeployment(parsed.id);
+      case 'latest': {
+        const [latest] = (await this.listDeployments(parsed.project, { limit: 1 })).items;
+        if (!latest) throw new VercelError(`Project ${parsed.project} has no deployments`);
+        return this.fetchDeployment(latest.uid || latest.id!);
+      }
+      case 'production': {
+        const production = (await this.getProject(parsed.project)).targets?.production;
+        if (!production?.id) throw new VercelError(`Project ${parsed.project} has no production deployment`);
+        return this.fetchDeployment(production.id);
+      }
+      case 'host':
+        try {
+          return await this.fetchDeployment(parsed.host);
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.status !== 404) throw error;
+        }
+        try {
+          const response = await this.api.get(`/v4/aliases/${encodeURIComponent(parsed.host)}`);
+          return await this.fetchDeployment(response.data.deploymentId);
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.status !== 404) throw error;
+          throw new VercelError(`No deployment or alias found for ${parsed.host}`);
+        }
+    }
+  }
+
+  // IDs are returned as they are; everything else costs a lookup
+  async resolveDeploymentId(ref: string): Promise<string> {
+    const parsed = parseDeploymentRef(ref);
+    if (parsed.kind === 'id') return parsed.id;
+    const deployment = await this.getDeployment(ref);
+    return deployment.id || deployment.uid!;
+  }
+
+  // The endpoint takes a deployment ID or URL
+  private async fetchDeployment(idOrUrl: string): Promise<Deployment> {
+    const response = await this.api.get(`/v13/deployments/${encodeURIComponent(idOrUrl)}`);
+    return response.data;
+  }
+
+  // Deploys a branch or tag of the project's linked repository, or a commit on it with sha. The
+  // ref defaults to the production branch.
+  async createDeployment(project: string, ref?: string, prod = false, sha?: string): Promise<Deployment> {
+    const { link } = await this.getProject(project);
+    if (!link?.type) throw new VercelError(`Project ${project} is not linked to a git repository`);
+    const data: any = {
+      name: project,
+      target: prod ? 'production' : 'preview',
+      gitSource: gitSource(link, ref ?? link.productionBranch ?? 'main', sha),
+    };
+    const response = await this.api.post('/v13/deployments', data);
+    return response.data;
+  }
+
+  // Creates a deployment from local files. The API answers missing_files with the hashes it has
+  // not seen, so only those are uploaded before the deployment is created again.
+  async createFileDeployment(project: string, files: LocalFile[], options: FileDeploymentOptions = {}): Promise<Deployment> {
+    const data: any = {
+      name: project,
+      target: options.prod ? 'production' : 'preview',
+      files: files.map(({ file, sha, size, mode }) => ({ file, sha, size, mode })),
+      ...(options.projectSettings && { projectSettings: options.projectSettings }),
+    };
+
+    try {
+      const response = await this.api.post('/v13/deployments', data);
+      return response.data;
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.code !== 'missing_files') throw error;
+      const missing = new Set((error.details?.missing as string[] | undefined) || files.map((f) => f.sha));
+      const uploads = [...new Map(files.filter((f) => missing.has(f.sha)).map((f) => [f.sha, f])).values()];
+      options.onUpload?.(uploads.length, uploads.reduce((total, f) => total + f.size, 0));
+      await mapConcurrent(uploads, UPLOAD_CONCURRENCY, (f) => this.uploadFile(fs.readFileSync(f.path), f.sha));
+    }
+
+    const response = await this.api.post('/v13/deployments', data);
+    return response.data;
+  }
+
+  // Files are addressed by content, so uploading one the API already has is harmless
+  async uploadFile(content: Buffer, sha: string): Promise<void> {
+    await this.api.post('/v2/files', content, {
+      headers: { 'Content-Type': 'application/octet-stream', 'x-vercel-digest': sha },
+      maxBodyLength: Infinity,
+    });
+  }
+
+  async redeploy(deployment: string): Promise<Deployment> {
+    const response = await this.api.post(`/v13/deployments/${await this.resolveDeploymentId(deployment)}/redeploy`);
+    return response.data;
+  }
+
+  // Points the project's production domains at the deployment; previews are rebuilt for production first
+  async promoteDeployment(ref: string): Promise<Deployment> {
+    const deployment = await this.getDeployment(ref);
+    await this.api.post(`/v10/projects/${deployment.projectId}/promote/${deployment.id}`);
+    return deployment;
+  }
+
+  // Instant rollback: production domains move back to an earlier production deployment without a rebuild
+  async rollbackDeployment(project: string, deployment: string): Promise<void> {
+    const projectId = await this.projectId(project);
+    await this.api.post(`/v9/projects/${projectId}/rollback/${await this.resolveDeploymentId(deployment)}`);
+  }
+
+  async listDeploymentAliases(deployment: string): Promise<Alias[]> {
+    const response = await this.api.get(`/v2/deployments/${await this.resolveDeploymentId(deployment)}/aliases`);
+    return response.data.aliases || [];
+  }
+
+  // Polls until the deployment serves every given alias; returns the ones still missing at the timeout
+  async waitForAliases(deployment: string, aliases: string[], wait: WaitOptions): Promise<string[]> {
+    const deadline = Date.now() + wait.timeout;
+    const deploymentId = await this.resolveDeploymentId(deployment);
+    for (;;) {
+      const current = (await this.listDeploymentAliases(deploymentId)).map((alias) => alias.alias);
+      const missing = aliases.filter((alias) => !current.includes(alias));
+      if (!missing.length || Date.now() + wait.interval > deadline) return missing;
+      await sleep(wait.interval);
+    }
+  }
+
+  // The deployment's file tree: the uploaded or cloned source and the build output
+  async listDeploymentFiles(deployment: string): Promise<DeploymentFileNode[]> {
+    const response = await this.api.get(`/v6/deployments/${await this.resolveDeploymentId(deployment)}/files`);
+    return response.data;
+  }
+
+  // Contents of a file of the tree, which the API returns base64-encoded. The path is only
+  // needed for git deployments, where files are looked up in the cloned source.
+  async getDeploymentFile(deployment: string, fileId: string, path?: string): Promise<Buffer> {
+    const response = await this.api.get(`/v8/deployments/${await this.resolveDeploymentId(deployment)}/files/${fileId}`, {
+      params: path ? { path } : {},
+    });
+    return Buffer.from(response.data.data, 'base64');
+  }
+
+  // Builds of a deployment with their outputs, functions included
+  async listDeploymentBuilds(deployment: string): Promise<DeploymentBuild[]> {
+    const response = await this.api.get(`/v11/deployments/${await this.resolveDeploymentId(deployment)}/builds`);
+    return response.data.builds || [];
+  }
+
+  async cancelDeployment(deployment: string): Promise<Deployment> {
+    const response = await this.api.patch(`/v13/deployments/${await this.resolveDeploymentId(deployment)}`, {
+      state: 'CANCELED',
+    });
+    return response.data;
+  }
+
+  async deleteDeployment(deployment: string): Promise<{ uid: string; state: string }> {
+    const response = await this.api.delete(`/v13/deployments/${await this.resolveDeploymentId(deployment)}`);
+    return response.data;
+  }
+
+  // Polls the deployment until it reaches READY, ERROR or CANCELED
+  async waitForDeployment(ref: string, wait: WaitOptions): Promise<Deployment> {
+    const deadline = Date.now() + wait.timeout;
+    const deploymentId = await this.resolveDeploymentId(ref);
+    let lastState: DeploymentState | undefined;
+    while (true) {
+      const deployment = await this.fetchDeployment(deploymentId);
+      const state = deployment.readyState!;
+      if (state !== lastState) {
+        wait.onStateChange?.(state, lastState);
+        lastState = state;
+      }
+      if (TERMINAL_STATES.includes(state)) return deployment;
+      if (Date.now() + wait.interval > deadline) {
+        throw new VercelError(`Timed out after ${wait.timeout / 1000}s waiting for ${deploymentId} (last state: ${state})`);
+      }
+      await sleep(wait.interval);
+    }
+  }
+
+  async getDeploymentEvents(deployment: string, options: EventOptions = {}): Promise<DeploymentEvent[]> {
+    const params: any = { direction: 'forward' };
+    if (options.since) params.since = options.since;
+    if (options.until) params.until = options.until;
+    if (options.limit) params.limit = options.limit;
+    const response = await this.api.get(`/v13/deployments/${await this.resolveDeploymentId(deployment)}/events`, { params });
+    return Array.isArray(response.data) ? response.data : response.data?.events || [];
+  }
+
+  // Polls events with a moving since cursor until the deployment finishes (or until passes).
+  // The cursor is inclusive, so events are deduplicated before being handed to onEvent.
+  async followDeploymentEvents(
+    ref: string,
+    options: EventOptions,
+    onEvent: (event: DeploymentEvent) => void,
+  ): Promise<Deployment | undefined> {
+    const deploymentId = await this.resolveDeploymentId(ref);
+    const seen = new Set<string>();
+    const cursor = { ...options };
+    while (true) {
+      const deployment = await this.fetchDeployment(deploymentId);
+
+      for (const event of await this.getDeploymentEvents(deploymentId, cursor)) {
+        const key = eventKey(event);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        cursor.since = Math.max(cursor.since || 0, eventTime(event));
+        onEvent(event);
+      }
+
+      if (deployment.readyState && TERMINAL_STATES.includes(deployment.readyState)) return deployment;
+      if (options.until && Date.now() > options.until) return undefined;
+      await sleep(EVENT_POLL_INTERVAL);
+    }
+  }
+
+  // Domains
+  async listDomains(projectName?: string, options: ListOptions = {}): Promise<ListResult<Domain>> {
+    const params: any = {};
+    if (projectName) params.projectName = projectName;
+    return this.paginate('/v5/domains', 'domains', params, options);
+  }
+
+  async listProjectDomains(project: string, options: ListOptions = {}): Promise<ListResult<Domain>> {
+    const projectId = await this.projectId(project);
+    return this.paginate(`/v9/projects/${projectId}/domains`, 'domains', {}, options);
+  }
+
+  async addDomain(project: string, domain: string): Promise<Domain> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.post(`/v10/projects/${projectId}/domains`, {
+      name: domain,
+    });
+    return response.data;
+  }
+
+  async removeDomain(project: string, domain: string): Promise<void> {
+    const projectId = await this.projectId(project);
+    await this.api.delete(`/v10/projects/${projectId}/domains/${domain}`);
+  }
+
+  async getProjectDomain(project: string, domain: string): Promise<Domain> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.get(`/v9/projects/${projectId}/domains/${domain}`);
+    return response.data;
+  }
+
+  // Checks the ownership challenge of a project domain; the returned domain says whether it passed
+  async verifyProjectDomain(project: string, domain: string): Promise<Domain> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.post(`/v9/projects/${projectId}/domains/${domain}/verify`);
+    return response.data;
+  }
+
+  async getDomainConfig(domain: string): Promise<DomainConfig> {
+    const response = await this.api.get(`/v6/domains/${domain}/config`);
+    return response.data;
+  }
+
+  // Polls until the project domain is verified and its DNS points at Vercel, or the timeout passes.
+  // Unlike waitForDeployment this does not throw on timeout: the last status is returned.
+  async waitForDomain(project: string, domain: string, wait: WaitOptions): Promise<DomainStatus> {
+    const deadline = Date.now() + wait.timeout;
+    let verified = false;
+    for (;;) {
+      if (!verified) {
+        try {
+          verified = !!(await this.verifyProjectDomain(project, domain)).verified;
+        } catch (error) {
+          // The API answers a failed challenge with an error rather than verified: false
+          if (!(error instanceof ApiError && error.status === 400 && PENDING_VERIFICATION_CODES.includes(error.code || ''))) throw error;
+        }
+      }
+      const configured = !(await this.getDomainConfig(domain)).misconfigured;
+      if ((verified && configured) || Date.now() + wait.interval > deadline) return { verified, configured };
+      await sleep(wait.interval);
+    }
+  }
+
+  async verifyDomain(domain: string): Promise<Domain> {
+    const response = await this.api.post(`/v5/domains/${domain}/verify`);
+    return response.data;
+  }
+
+  async getDomain(domain: string): Promise<Domain> {
+    const response = await this.api.get(`/v5/domains/${domain}`);
+    return response.data.domain;
+  }
+
+  // Environment Variables
+  async listEnvVars(project: string, target?: string, options: EnvListOptions = {}): Promise<ListResult<EnvVar>> {
+    const projectId = await this.projectId(project);
+    const params: any = {};
+    if (target) params.target = target;
+    if (options.decrypt) params.decrypt = 'true';
+    return this.paginate(`/v10/projects/${projectId}/env`, 'envs', params, options);
+  }
+
+  // Returns the variable with its value decrypted, where the type allows it (sensitive values never are)
+  async getEnvVar(project: string, envId: string): Promise<EnvVar> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.get(`/v1/projects/${projectId}/env/${envId}`);
+    return response.data;
+  }
+
+  // With upsert, a variable with the same key, target and branch is overwritten instead of rejected
+  async createEnvVar(project: string, input: EnvVarInput, upsert = false): Promise<EnvVar> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.post(`/v10/projects/${projectId}/env`, input, upsert ? { params: { upsert: 'true' } } : {});
+    return response.data.created ?? response.data;
+  }
+
+  async updateEnvVar(project: string, envId: string, changes: Partial<EnvVarInput>): Promise<EnvVar> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.patch(`/v9/projects/${projectId}/env/${envId}`, changes);
+    return response.data;
+  }
+
+  async deleteEnvVar(project: string, envId: string): Promise<EnvVar> {
+    const projectId = await this.projectId(project);
+    const response = await this.api.delete(`/v10/projects/${projectId}/env/${envId}`);
+    return response.data;
+  }
+
+  // Lists variables with readable values: encrypted ones the list endpoint returns as ciphertext are
+  // fetched individually; values that cannot be decrypted (sensitive variables) are left undefined
+  async listDecryptedEnvVars(project: string, target?: EnvTarget): Promise<EnvVar[]> {
+    const { items } = await this.listEnvVars(project, target, { all: true, decrypt: true });
+    const envs = target ? items.filter((env) => envTargets(env).includes(target)) : items;
+    const decrypted: EnvVar[] = [];
+    for (const env of envs) {
+      if (env.type === 'plain' || env.decrypted) {
+        decrypted.push(env);
+      } else if (env.type === 'sensitive' || env.type === 'secret') {
+        decrypted.push({ ...env, value: undefined });
+      } else {
+        const full = await this.getEnvVar(project, env.id);
+        decrypted.push({ ...env, value: full.decrypted === false ? undefined : full.value });
+      }
+    }
+    return decrypted;
+  }
+
+  // Applies one planned change to a single target. A variable shared with other targets is
+  // narrowed rather than rewritten so those targets keep their value.
+  async applyEnvChange(project: string, change: EnvChange, target: EnvTarget, type: EnvType = 'encrypted'): Promise<void> {
+    const env = change.env;
+    const others = env ? envTargets(env).filter((t) => t !== target) : [];
+    switch (change.action) {
+      case 'create':
+        await this.createEnvVar(project, { key: change.key, value: change.value!, target: [target], type });
+        break;
+      case 'update':
+        if (others.length) {
+          await this.updateEnvVar(project, env!.id, { target: others });
+          await this.createEnvVar(project, { key: change.key, value: change.value!, target: [target], type: WRITABLE_ENV_TYPES.includes(env!.type!) ? env!.type : type });
+        } else {
+          await this.updateEnvVar(project, env!.id, { value: change.value });
+        }
+        break;
+      case 'remove':
+        if (others.length) await this.updateEnvVar(project, env!.id, { target: others });
+        else await this.deleteEnvVar(project, env!.id);
+        break;
+    }
+  }
+
+  async addEnvVar(project: string, key: string, value: string, targets: string[], options: Omit<EnvVarInput, 'key' | 'value' | 'target'> = {}): Promise<EnvVar> {
+    return this.createEnvVar(project, { key, value, target: targets as EnvTarget[], ...options }, true);
+  }
+
+  async findEnvVars(project: string, key: string, selector: EnvVarSelector = {}): Promise<EnvVar[]> {
+    const { items } = await this.listEnvVars(project, undefined, { all: true });
+    return items.filter(
+      (env) =>
+        env.key === key &&
+        (env.gitBranch || undefined) === (selector.gitBranch || undefined) &&
+        (!selector.target || envTargets(env).includes(selector.target)),
+    );
+  }
+
+  // The single variable matching the selector; fails when the key is missing or ambiguous
+  async findEnvVar(project: string, key: string, selector: EnvVarSelector = {}): Promise<EnvVar> {
+    const matches = await this.findEnvVars(project, key, selector);
+    const scope = [selector.target, selector.gitBranch && `branch ${selector.gitBranch}`].filter(Boolean).join(', ');
+    if (!matches.length) throw new VercelError(`Environment variable '${key}' not found${scope ? ` (${scope})` : ''}`);
+    if (matches.length > 1) {
+      const targets = matches.map((env) => envTargets(env).join('+')).join(', ');
+      throw new VercelError(`Environment variable '${key}' exists for several targets (${targets}); pass --env to pick one`);
+    }
+    return matches[0];
+  }
+
+  // Removes the key from the given targets only. A variable shared with other targets keeps them;
+  // it is deleted once no target is left. Returns the variables that were changed or deleted.
+  async removeEnvVar(project: string, key: string, targets: EnvTarget | EnvTarget[] = 'production', gitBranch?: string): Promise<EnvVar[]> {
+    const removing = Array.isArray(targets) ? targets : [targets];
+    const matches = (await this.findEnvVars(project, key, { gitBranch })).filter((env) =>
+      envTargets(env).some((target) => removing.includes(target)),
+    );
+    if (!matches.length) throw new VercelError(`Environment variable '${key}' not found for ${removing.join(', ')}`);
+
+    for (const env of matches) {
+      const remaining = envTargets(env).filter((target) => !removing.includes(target));
+      if (remaining.length) await this.updateEnvVar(project, env.id, { target: remaining });
+      else await this.deleteEnvVar(project, env.id);
+    }
+    return matches;
+  }
+
+  // DNS
+  async listDnsRecords(domain: string, options: ListOptions = {}): Promise<ListResult<DnsRecord>> {
+    return this.paginate(`/v4/domains/${domain}/records`, 'records', {}, options);
+  }
+
+  async addDnsRecord(domain: string, type: string, name: string, value: string, ttl = 3600): Promise<{ uid: string }> {
+    return this.createDnsRecord(domain, { type, name, value, ttl });
+  }
+
+  async createDnsRecord(domain: string, record: DnsRecordInput): Promise<{ uid: string }> {
+    // SRV and HTTPS records take their data as structured fields rather than a value
+    const { value, ...fields } = record;
+    const body = record.srv || record.https ? fields : record;
+    const response = await this.api.post(`/v2/domains/${domain}/records`, { ttl: 3600, ...body });
+    return response.data;
+  }
+
+  async updateDnsRecord(recordId: string, changes: Partial<DnsRecordInput>): Promise<DnsRecord> {
+    const response = await this.api.patch(`/v1/domains/records/${recordId}`, changes);
+    return response.data;
+  }
+
+  async removeDnsRecord(domain: string, recordId: string): Promise<void> {
+    await this.api.delete(`/v2/domains/${domain}/records/${recordId}`);
+  }
+
+  // Project specs
+  // Reads everything a project spec describes. DNS zones default to the apex domains of the
+  // project's domains; zones not hosted by Vercel are left out.
+  async getProjectState(nameOrId: string, options: { decrypt?: boolean; zones?: string[] } = {}): Promise<ProjectState> {
+    let project: Project | undefined;
+    try {
+      project = await this.getProject(nameOrId);
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 404) throw error;
+    }
+
+    const domains = project ? (await this.listProjectDomains(project.id, { all: true })).items : [];
+    let envs: EnvVar[] = [];
+    if (project) envs = options.decrypt ? await this.listDecryptedEnvVars(project.id) : (await this.listEnvVars(project.id, undefined, { all: true })).items;
+
+    const zones = options.zones ?? [...new Set(domains.map((domain) => domain.apexName || domain.name))];
+    const dns: Record<string, DnsRecord[]> = {};
+    for (const zone of zones) {
+      try {
+        dns[zone] = (await this.listDnsRecords(zone, { all: true })).items;
+      } catch (error) {
+        if (!(error instanceof ApiError) || ![403, 404].includes(error.status)) throw error;
+      }
+    }
+    return { project, domains, envs, dns };
+  }
+
+  async applySpecChange(project: string, change: SpecChange): Promise<void> {
+    switch (change.resource) {
+      case 'project': {
+        const { framework, ...settings } = change.settings || {};
+        await this.createProject(change.name, framework || undefined, change.git?.repo, change.git?.type);
+        if (Object.keys(settings).length) await this.updateProject(change.name, settings);
+        break;
+      }
+      case 'settings':
+        await this.updateProject(project, change.settings!);
+        break;
+      case 'git':
+        await this.linkProject(project, change.git!.repo, change.git!.type);
+        break;
+      case 'domain':
+        if (change.action === 'create') await this.addDomain(project, change.name);
+        else await this.removeDomain(project, change.name);
+        break;
+      case 'env':
+        if (change.action === 'create') await this.createEnvVar(project, { type: 'encrypted', ...(change.env as EnvVarInput) });
+        else if (change.action === 'update') await this.updateEnvVar(project, change.remote!.id, change.env!);
+        else await this.deleteEnvVar(project, change.remote!.id);
+        break;
+      case 'dns':
+        if (change.action === 'create') await this.createDnsRecord(change.zone!, change.record!);
+        else if (change.action === 'update') await this.updateDnsRecord(change.recordId!, { ttl: change.record!.ttl });
+        else await this.removeDnsRecord(change.zone!, change.recordId!);
+        break;
+    }
+  }
+
+  // Teams
+  async listTeams(options: ListOptions = {}): Promise<ListResult<Team>> {
+    return this.paginate('/v2/teams', 'teams', {}, options);
+  }
+
+  async getTeam(id: string): Promise<Team> {
+    const response = await this.api.get(`/v2/teams/${id}`);
+    return response.data;
+  }
+
+  // Accepts a team ID or slug and returns the team ID
+  async resolveTeamId(teamIdOrSlug: string): Promise<string> {
+    if (teamIdOrSlug.startsWith('team_')) return teamIdOrSlug;
+    const { items } = await this.listTeams({ all: true });
+    const team = items.find((t) => t.slug === teamIdOrSlug);
+    if (!team) throw new VercelError(`Team '${teamIdOrSlug}' not found for this token`);
+    return team.id;
+  }
+
+  async getUser(): Promise<User> {
+    const response = await this.api.get('/v2/user');
+    return response.data.user;
+  }
+
+  // Secrets (Legacy)
+  async listSecrets(): Promise<Secret[]> {
+    const response = await this.api.get('/v3/secrets');
+    return response.data.secrets;
+  }
+
+  async addSecret(name: string, value: string): Promise<Secret> {
+    const response = await this.api.post('/v3/secrets', { name, value });
+    return response.data;
+  }
+
+  async removeSecret(name: string): Promise<Secret> {
+    const response = await this.api.delete(`/v3/secrets/${name}`);
+    return response.data;
+  }
+
+  // Certificates
+  async listCerts(domain?: string, options: ListOptions = {}): Promise<ListResult<Cert>> {
+    const params: any = {};
+    if (domain) params.domain = domain;
+    return this.paginate('/v5/certs', 'certs', params, options);
+  }
+
+  async getCert(id: string): Promise<Cert> {
+    const response = await this.api.get(`/v5/certs/${id}`);
+    return response.data;
+  }
+
+  // Asks Vercel to issue a certificate covering every domain; they must point at Vercel
+  async issueCert(domains: string[]): Promise<Cert> {
+    const response = await this.api.post('/v8/certs', { cns: domains });
+    return response.data;
+  }
+
+  // Uploads a custom certificate; ca is the intermediate chain, all three in PEM format
+  async uploadCert(cert: { cert: string; key: string; ca: string }): Promise<Cert> {
+    const response = await this.api.put('/v8/certs', cert);
+    return response.data;
+  }
+
+  async removeCert(id: string): Promise<void> {
+    await this.api.delete(`/v8/certs/${id}`);
+  }
+
+  // Misc
+  // Usage for the current billing period, or between two times (millisecond timestamps); the
+  // response breaks it down per project and day in `records`
+  async getUsage(range: { from?: number; to?: number } = {}): Promise<Usage> {
+    const params: any = {};
+    if (range.from !== undefined) params.from = new Date(range.from).toISOString();
+    if (range.to !== undefined) params.to = new Date(range.to).toISOString();
+    const response = await this.api.get('/v1/billing/usage', { params });
+    return response.data;
+  }
+
+  async listAliases(projectName?: string, options: ListOptions = {}): Promise<ListResult<Alias>> {
+    const params: any = {};
+    if (projectName) params.projectName = projectName;
+    return this.paginate('/v4/aliases', 'aliases', params, options);
+  }
+}
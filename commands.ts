@@ -0,0 +1,357 @@
+export type FlagType = 'string' | 'number' | 'boolean' | 'list' | 'time' | 'duration';
+
+export interface FlagSpec {
+  name: string;
+  alias?: string;
+  type: FlagType;
+  description: string;
+  default?: unknown;
+  required?: boolean;
+  choices?: string[];
+}
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+  variadic?: boolean;
+  choices?: string[];
+  // A flag that supplies the argument instead, so it is not expected when the flag is given
+  flag?: string;
+}
+
+export interface CommandSpec<C> {
+  name: string;
+  group: string;
+  description: string;
+  positionals?: PositionalSpec[];
+  flags?: FlagSpec[];
+  // Commands that work without an API token, such as help and completion
+  offline?: boolean;
+  run: (context: C, input: CommandInput) => Promise<void>;
+}
+
+// Positionals and flags keyed by camelCased name, e.g. --git-repo becomes gitRepo
+export type CommandInput = Record<string, any>;
+
+export class UsageError extends Error {
+  constructor(message: string, public command?: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const TIME_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+// Accepts a millisecond timestamp, an ISO date or a relative duration such as 30m, 2h or 1d
+export function parseTime(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const relative = value.match(/^(\d+)(s|m|h|d)$/);
+  if (relative) return Date.now() - parseInt(relative[1], 10) * TIME_UNITS[relative[2]];
+  const time = Date.parse(value);
+  if (isNaN(time)) throw new Error(`Invalid time: ${value}`);
+  return time;
+}
+
+// Accepts a number of seconds or a duration such as 500ms, 30s, 10m or 1h
+export function parseDuration(value: string): number {
+  const match = value.match(/^(\d+)(ms|s|m|h)?$/);
+  if (!match) throw new Error(`Invalid duration: ${value}`);
+  return parseInt(match[1], 10) * TIME_UNITS[match[2] || 's'];
+}
+
+export function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function convertFlag(flag: FlagSpec, raw: string, command: string): unknown {
+  // List flags check each comma-separated item against the choices
+  const values = flag.type === 'list' ? raw.split(',').map((item) => item.trim()).filter(Boolean) : [raw];
+  const invalid = flag.choices ? values.find((value) => !flag.choices!.includes(value)) : undefined;
+  if (invalid !== undefined) {
+    throw new UsageError(`--${flag.name} must be one of ${flag.choices!.join(', ')} (got '${invalid}')`, command);
+  }
+  try {
+    switch (flag.type) {
+      case 'number': {
+        if (!/^-?\d+$/.test(raw)) throw new Error(`expected a number, got '${raw}'`);
+        return parseInt(raw, 10);
+      }
+      case 'boolean':
+        if (!['true', 'false'].includes(raw)) throw new Error(`expected true or false, got '${raw}'`);
+        return raw === 'true';
+      case 'list':
+        return raw.split(',').map((item) => item.trim()).filter(Boolean);
+      case 'time':
+        return parseTime(raw);
+      case 'duration':
+        return parseDuration(raw);
+      default:
+        return raw;
+    }
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(`Invalid value for --${flag.name}: ${(error as Error).message}`, command);
+  }
+}
+
+// Reads a flag's value ahead of full parsing, for settings needed before the command is parsed
+export function peekFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--') break;
+    if (argv[i] === `--${name}`) return argv[i + 1];
+    if (argv[i].startsWith(`--${name}=`)) return argv[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+// defaults supplies values for an omitted flag of the same name, or for a leading positional
+// of the same name when one positional short of what the command requires or accepts (e.g. the
+// profile's default project)
+export function parseCommandArgs<C>(
+  command: CommandSpec<C>,
+  argv: string[],
+  globalFlags: FlagSpec[],
+  defaults: Record<string, string | undefined> = {},
+): CommandInput {
+  const flags = [...(command.flags || []), ...globalFlags];
+  const input: CommandInput = {};
+  const positionals: string[] = [];
+
+  const findFlag = (token: string): FlagSpec => {
+    const flag = token.startsWith('--')
+      ? flags.find((f) => f.name === token.slice(2))
+      : flags.find((f) => f.alias === token.slice(1));
+    if (flag) return flag;
+    const hint = suggest(token.replace(/^-+/, ''), flags.map((f) => f.name));
+    throw new UsageError(`Unknown flag ${token}${hint ? ` (did you mean --${hint}?)` : ''}`, command.name);
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (token === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!/^-[^\d]/.test(token)) {
+      positionals.push(token);
+      continue;
+    }
+
+    const [name, inline] = token.includes('=') ? [token.slice(0, token.indexOf('=')), token.slice(token.indexOf('=') + 1)] : [token, undefined];
+    const flag = findFlag(name);
+    let raw = inline;
+    if (raw === undefined && flag.type !== 'boolean') {
+      if (i + 1 >= argv.length) throw new UsageError(`--${flag.name} requires a value`, command.name);
+      raw = argv[++i];
+    }
+    input[camelCase(flag.name)] = raw === undefined ? true : convertFlag(flag, raw, command.name);
+  }
+
+  for (const flag of flags) {
+    const key = camelCase(flag.name);
+    if (input[key] !== undefined) continue;
+    if (defaults[flag.name] !== undefined) input[key] = convertFlag(flag, defaults[flag.name]!, command.name);
+    else if (flag.required) throw new UsageError(`--${flag.name} flag required`, command.name);
+    else if (flag.default !== undefined) input[key] = flag.default;
+  }
+
+  const specs = command.positionals || [];
+  const requiredCount = specs.filter((spec) => spec.required && !spec.variadic).length;
+  const fixedCount = specs.filter((spec) => !spec.variadic && !(spec.flag && input[camelCase(spec.flag)] !== undefined)).length;
+  const leading = specs[0] && defaults[specs[0].name];
+  // `env-add KEY` and `env-add KEY VALUE` both leave the project to the default
+  const short = positionals.length === requiredCount - 1 || (fixedCount > requiredCount && positionals.length === fixedCount - 1);
+  if (leading !== undefined && short) positionals.unshift(leading);
+
+  specs.forEach((spec, index) => {
+    const value = spec.variadic ? positionals.slice(index) : positionals[index];
+    const missing = spec.variadic ? !(value as string[]).length : value === undefined;
+    if (missing && spec.required) throw new UsageError(`Missing required argument <${spec.name}>`, command.name);
+    if (!missing && spec.choices && !spec.choices.includes(value as string)) {
+      throw new UsageError(`<${spec.name}> must be one of ${spec.choices.join(', ')} (got '${value}')`, command.name);
+    }
+    if (!missing) input[camelCase(spec.name)] = value;
+  });
+  const accepted = specs.some((spec) => spec.variadic) ? Infinity : specs.length;
+  if (positionals.length > accepted) {
+    throw new UsageError(`Unexpected argument '${positionals[accepted]}'`, command.name);
+  }
+
+  return input;
+}
+
+// Closest candidate within a small edit distance, used for "did you mean" hints
+export function suggest(value: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function usageLine<C>(command: CommandSpec<C>): string {
+  const positionals = (command.positionals || []).map((p) => {
+    const name = p.choices ? p.choices.join('|') : p.variadic ? `${p.name}...` : p.name;
+    return p.required ? `<${name}>` : `[${name}]`;
+  });
+  const required = (command.flags || []).filter((f) => f.required).map((f) => `--${f.name} <${f.name}>`);
+  return [command.name, ...positionals, ...required].join(' ');
+}
+
+function flagLabel(flag: FlagSpec): string {
+  const value = flag.type === 'boolean' ? '' : ` <${flag.choices ? flag.choices.join('|') : flag.type}>`;
+  return `${flag.alias ? `-${flag.alias}, ` : '    '}--${flag.name}${value}`;
+}
+
+function flagDescription(flag: FlagSpec): string {
+  const extras = [];
+  if (flag.required) extras.push('required');
+  if (flag.default !== undefined && flag.type !== 'duration' && flag.default !== false) extras.push(`default: ${flag.default}`);
+  return extras.length ? `${flag.description} (${extras.join(', ')})` : flag.description;
+}
+
+const MAX_COLUMN_WIDTH = 40;
+
+// Two-column layout; entries wider than the column put their description on the next line
+function columns(rows: [string, string][], width = Math.min(Math.max(...rows.map(([left]) => left.length)), MAX_COLUMN_WIDTH)): string {
+  return rows
+    .map(([left, right]) => {
+      if (left.length > width) return `  ${left}\n  ${' '.repeat(width + 2)}${right}`.trimEnd();
+      return `  ${left.padEnd(width + 2)}${right}`.trimEnd();
+    })
+    .join('\n');
+}
+
+export function formatHelp<C>(program: string, title: string, commands: CommandSpec<C>[], globalFlags: FlagSpec[], footer = ''): string {
+  const groups: string[] = [];
+  for (const command of commands) {
+    if (!groups.includes(command.group)) groups.push(command.group);
+  }
+  const width = Math.min(Math.max(...commands.map((c) => usageLine(c).length)), MAX_COLUMN_WIDTH);
+  const sections = groups.map((group) => {
+    const rows = commands.filter((c) => c.group === group).map((c): [string, string] => [usageLine(c), c.description]);
+    return `${group.toUpperCase()}:\n${columns(rows, width)}`;
+  });
+  return [
+    title,
+    `USAGE:\n  ${program} <command> [args] [flags]\n  ${program} <command> --help`,
+    ...sections,
+    `GLOBAL FLAGS:\n${columns(globalFlags.map((f): [string, string] => [flagLabel(f), flagDescription(f)]))}`,
+    footer,
+  ].filter(Boolean).join('\n\n') + '\n';
+}
+
+export function formatCommandHelp<C>(program: string, command: CommandSpec<C>, globalFlags: FlagSpec[]): string {
+  const parts = [`USAGE:\n  ${program} ${usageLine(command)}${command.flags?.length ? ' [flags]' : ''}`, command.description];
+  if (command.positionals?.length) {
+    parts.push(`ARGUMENTS:\n${columns(command.positionals.map((p): [string, string] => [p.name, p.description]))}`);
+  }
+  if (command.flags?.length) {
+    parts.push(`FLAGS:\n${columns(command.flags.map((f): [string, string] => [flagLabel(f), flagDescription(f)]))}`);
+  }
+  parts.push(`GLOBAL FLAGS:\n${columns(globalFlags.map((f): [string, string] => [flagLabel(f), flagDescription(f)]))}`);
+  return parts.join('\n\n') + '\n';
+}
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'];
+
+export function completionScript<C>(shell: string, program: string, commands: CommandSpec<C>[], globalFlags: FlagSpec[]): string {
+  const fn = `_${program.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  const flagsOf = (command: CommandSpec<C>) => [...(command.flags || []), ...globalFlags];
+
+  if (shell === 'bash') {
+    const cases = commands.map((command) => {
+      const choices = flagsOf(command)
+        .filter((f) => f.choices)
+        .map((f) => `        --${f.name}) COMPREPLY=( $(compgen -W "${f.choices!.join(' ')}" -- "$cur") ); return ;;`);
+      const words = flagsOf(command).map((f) => `--${f.name}`).join(' ');
+      return [
+        `    ${command.name})`,
+        ...(choices.length ? ['      case "$prev" in', ...choices, '      esac'] : []),
+        `      COMPREPLY=( $(compgen -W "${words}" -- "$cur") ) ;;`,
+      ].join('\n');
+    });
+    return `${fn}() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  if [ "$COMP_CWORD" -eq 1 ]; then
+    COMPREPLY=( $(compgen -W "${commands.map((c) => c.name).join(' ')}" -- "$cur") )
+    return
+  fi
+  case "\${COMP_WORDS[1]}" in
+${cases.join('\n')}
+  esac
+}
+complete -F ${fn} ${program}
+`;
+  }
+
+  if (shell === 'zsh') {
+    const quote = (text: string) => text.replace(/'/g, `'\\''`).replace(/\[/g, '(').replace(/\]/g, ')');
+    const described = commands.map((c) => `    '${c.name}:${quote(c.description).replace(/:/g, '\\:')}'`);
+    const cases = commands.map((command) => {
+      const specs = flagsOf(command).map((f) => {
+        const value = f.type === 'boolean' ? '' : `:${f.name}:${f.choices ? `(${f.choices.join(' ')})` : ''}`;
+        return `        '--${f.name}[${quote(f.description)}]${value}'`;
+      });
+      return `    ${command.name})\n      _arguments \\\n${[...specs, "        '*:argument:_files'"].join(' \\\n')}\n      ;;`;
+    });
+    return `#compdef ${program}
+${fn}() {
+  local -a commands
+  commands=(
+${described.join('\n')}
+  )
+  if (( CURRENT == 2 )); then
+    _describe 'command' commands
+    return
+  fi
+  shift words
+  (( CURRENT-- ))
+  case "$words[1]" in
+${cases.join('\n')}
+  esac
+}
+compdef ${fn} ${program}
+`;
+  }
+
+  if (shell === 'fish') {
+    const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    const lines = [`complete -c ${program} -f`];
+    for (const command of commands) {
+      lines.push(`complete -c ${program} -n '__fish_use_subcommand' -a ${command.name} -d ${quote(command.description)}`);
+      for (const f of flagsOf(command)) {
+        const parts = [`complete -c ${program} -n '__fish_seen_subcommand_from ${command.name}' -l ${f.name}`];
+        if (f.alias) parts.push(`-s ${f.alias}`);
+        if (f.choices) parts.push(`-x -a ${quote(f.choices.join(' '))}`);
+        else if (f.type !== 'boolean') parts.push('-r');
+        parts.push(`-d ${quote(f.description)}`);
+        lines.push(parts.join(' '));
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  throw new UsageError(`Unsupported shell '${shell}' (expected ${COMPLETION_SHELLS.join(', ')})`);
+}
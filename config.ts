@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VercelError } from './errors';
+
+export interface Profile {
+  token: string;
+  teamId?: string;
+  // Team slug, kept for display and re-resolution
+  team?: string;
+  // Used when a command's <project> argument or --project flag is omitted
+  project?: string;
+}
+
+export interface ConfigFile {
+  currentProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+export interface Credentials {
+  profile?: string;
+  token?: string;
+  // Team ID or slug
+  team?: string;
+  project?: string;
+}
+
+export const DEFAULT_ENV_FILE = path.join(os.homedir(), '.openclaw', '.env');
+export const DEFAULT_CONFIG_FILE = path.join(os.homedir(), '.openclaw', 'vercel.json');
+
+export function configPath(explicit?: string): string {
+  return explicit || process.env.VERCEL_CONFIG || DEFAULT_CONFIG_FILE;
+}
+
+export function envFilePath(explicit?: string): string {
+  return explicit || process.env.VERCEL_ENV_FILE || DEFAULT_ENV_FILE;
+}
+
+export function loadConfig(file: string): ConfigFile {
+  if (!fs.existsSync(file)) return { profiles: {} };
+  try {
+    const config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { ...config, profiles: config.profiles || {} };
+  } catch (error) {
+    throw new VercelError(`Could not read config file ${file}: ${(error as Error).message}`);
+  }
+}
+
+// The file holds API tokens, so it is only readable by the owner
+export function saveConfig(file: string, config: ConfigFile): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
+}
+
+// Precedence: an explicitly selected profile (--profile or VERCEL_PROFILE), then the config's current
+// profile, then VERCEL_TOKEN / VERCEL_TEAM_ID from the environment. The env file usually sets
+// VERCEL_TOKEN, so it must not hide a profile picked with auth login or auth switch. --team
+// overrides the team.
+export function resolveCredentials(config: ConfigFile, selected: { profile?: string; team?: string } = {}): Credentials {
+  const explicit = selected.profile || process.env.VERCEL_PROFILE;
+  let credentials: Credentials;
+
+  if (explicit) {
+    const profile = config.profiles[explicit];
+    if (!profile) throw new VercelError(`Unknown profile '${explicit}' (run 'auth list' to see profiles)`);
+    credentials = fromProfile(explicit, profile);
+  } else if (config.currentProfile && config.profiles[config.currentProfile]) {
+    credentials = fromProfile(config.currentProfile, config.profiles[config.currentProfile]);
+  } else if (process.env.VERCEL_TOKEN) {
+    credentials = { token: process.env.VERCEL_TOKEN, team: process.env.VERCEL_TEAM_ID };
+  } else {
+    credentials = {};
+  }
+
+  if (selected.team) credentials.team = selected.team;
+  return credentials;
+}
+
+function fromProfile(name: string, profile: Profile): Credentials {
+  return { profile: name, token: profile.token, team: profile.teamId || profile.team, project: profile.project };
+}
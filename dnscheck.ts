@@ -0,0 +1,86 @@
+import { DnsRecordInput, Domain, DomainConfig } from './types';
+
+// The lookups domain-setup needs; dns.promises satisfies it, and tests can pass a stub
+export interface DnsResolver {
+  resolve4(hostname: string): Promise<string[]>;
+  resolveCname(hostname: string): Promise<string[]>;
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+export interface RequiredRecord {
+  type: 'A' | 'CNAME' | 'TXT';
+  // Fully qualified name, e.g. www.example.com
+  name: string;
+  value: string;
+  // Why the record is needed
+  purpose: 'routing' | 'verification';
+}
+
+export interface RecordCheck extends RequiredRecord {
+  found: string[];
+  ok: boolean;
+}
+
+// Used when the domain config does not recommend values
+export const DEFAULT_A_VALUE = '76.76.21.21';
+export const DEFAULT_CNAME_VALUE = 'cname.vercel-dns.com';
+
+const normalize = (value: string) => value.toLowerCase().replace(/\.$/, '');
+
+// Resolver errors that mean the record is not visible yet rather than that the check cannot run:
+// no such name or record, or a nameserver that fails, refuses or does not answer
+const UNRESOLVED = ['ENODATA', 'ENOTFOUND', 'ESERVFAIL', 'ETIMEOUT', 'ECONNREFUSED', 'EREFUSED'];
+
+// Apex domains point an A record at Vercel, subdomains a CNAME. Domains that another account
+// already uses also need the TXT records the API lists under verification.
+export function requiredRecords(domain: Domain, config: DomainConfig): RequiredRecord[] {
+  const records: RequiredRecord[] = [];
+  const apex = !domain.apexName || normalize(domain.apexName) === normalize(domain.name);
+  if (apex) {
+    const values = config.recommendedIPv4?.find((r) => r.rank === 1)?.value ?? [DEFAULT_A_VALUE];
+    for (const value of values) records.push({ type: 'A', name: domain.name, value, purpose: 'routing' });
+  } else {
+    const value = config.recommendedCNAME?.find((r) => r.rank === 1)?.value ?? DEFAULT_CNAME_VALUE;
+    records.push({ type: 'CNAME', name: domain.name, value: normalize(value), purpose: 'routing' });
+  }
+  for (const challenge of domain.verification || []) {
+    if (challenge.type.toUpperCase() !== 'TXT') continue;
+    records.push({ type: 'TXT', name: challenge.domain, value: challenge.value, purpose: 'verification' });
+  }
+  return records;
+}
+
+// Resolves each record locally. A name that does not resolve yet (one of the UNRESOLVED errors)
+// counts as having no values; any other resolver error is thrown.
+export async function checkRecords(records: RequiredRecord[], resolver: DnsResolver): Promise<RecordCheck[]> {
+  const checks: RecordCheck[] = [];
+  for (const record of records) {
+    const found = await lookup(record, resolver);
+    const ok = record.type === 'TXT' ? found.includes(record.value) : found.map(normalize).includes(normalize(record.value));
+    checks.push({ ...record, found, ok });
+  }
+  return checks;
+}
+
+async function lookup(record: RequiredRecord, resolver: DnsResolver): Promise<string[]> {
+  try {
+    switch (record.type) {
+      case 'A':
+        return await resolver.resolve4(record.name);
+      case 'CNAME':
+        return await resolver.resolveCname(record.name);
+      case 'TXT':
+        // Long TXT values come back split into chunks
+        return (await resolver.resolveTxt(record.name)).map((chunks) => chunks.join(''));
+    }
+  } catch (error) {
+    if (UNRESOLVED.includes((error as NodeJS.ErrnoException).code!)) return [];
+    throw error;
+  }
+}
+
+// The record to create in the zone, with the name relative to the apex ('' for the apex itself)
+export function zoneRecord(record: RequiredRecord, zone: string): DnsRecordInput {
+  const name = normalize(record.name) === normalize(zone) ? '' : record.name.slice(0, -(zone.length + 1));
+  return { type: record.type, name, value: record.value };
+}
@@ -0,0 +1,99 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { EnvTarget, EnvVar } from './types';
+
+export interface EnvChange {
+  action: 'create' | 'update' | 'remove' | 'unchanged';
+  key: string;
+  value?: string;
+  // The remote variable being updated or removed
+  env?: EnvVar;
+}
+
+export interface EnvDiffRow {
+  key: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged' | 'unknown';
+  local: string | null;
+  remote: string | null;
+}
+
+export function readEnvFile(file: string): Record<string, string> {
+  if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+  return dotenv.parse(fs.readFileSync(file));
+}
+
+// Quotes a value so that dotenv.parse reads it back unchanged. Double quotes expand \n, so
+// values containing quotes fall back to single quotes or backticks, which are taken literally.
+export function quoteEnvValue(value: string): string {
+  if (!value.includes('"') && !/\\[nr]/.test(value)) {
+    return `"${value.replace(/\r/g, '\\r').replace(/\n/g, '\\n')}"`;
+  }
+  if (!value.includes("'") && !/[\r\n]/.test(value)) return `'${value}'`;
+  if (!value.includes('`')) return `\`${value}\``;
+  throw new Error('Value contains double quotes, single quotes and backticks and cannot be written to a dotenv file');
+}
+
+export function formatEnvFile(entries: [string, string][], header?: string): string {
+  const lines = entries.map(([key, value]) => {
+    try {
+      return `${key}=${quoteEnvValue(value)}`;
+    } catch (error) {
+      throw new Error(`${key}: ${(error as Error).message}`);
+    }
+  });
+  return [...(header ? [`# ${header}`] : []), ...lines].join('\n') + '\n';
+}
+
+export function maskValue(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  if (value.length <= 6) return '*'.repeat(value.length || 1);
+  return `${value.slice(0, 2)}${'*'.repeat(Math.min(value.length - 2, 10))}`;
+}
+
+export function envTargets(env: EnvVar): EnvTarget[] {
+  if (!env.target) return [];
+  return Array.isArray(env.target) ? env.target : [env.target];
+}
+
+// Remote variables that apply to the whole target, keyed by name (branch-specific ones are ignored)
+function remoteByKey(remote: EnvVar[], target: EnvTarget): Map<string, EnvVar> {
+  const byKey = new Map<string, EnvVar>();
+  for (const env of remote) {
+    if (env.gitBranch || !envTargets(env).includes(target)) continue;
+    byKey.set(env.key, env);
+  }
+  return byKey;
+}
+
+// Changes that make the remote target match the local file. Values that cannot be read back
+// (sensitive variables) are always rewritten. Remote-only keys are removed only when pruning.
+export function planEnvPush(local: Record<string, string>, remote: EnvVar[], target: EnvTarget, prune = false): EnvChange[] {
+  const existing = remoteByKey(remote, target);
+  const changes: EnvChange[] = Object.entries(local).map(([key, value]) => {
+    const env = existing.get(key);
+    if (!env) return { action: 'create', key, value };
+    if (env.value === value) return { action: 'unchanged', key, env };
+    return { action: 'update', key, value, env };
+  });
+  if (prune) {
+    for (const [key, env] of existing) {
+      if (!(key in local)) changes.push({ action: 'remove', key, env });
+    }
+  }
+  return changes;
+}
+
+export function diffEnv(local: Record<string, string>, remote: EnvVar[], target: EnvTarget): EnvDiffRow[] {
+  const existing = remoteByKey(remote, target);
+  const keys = [...new Set([...Object.keys(local), ...existing.keys()])].sort();
+  return keys.map((key) => {
+    const localValue = local[key];
+    const env = existing.get(key);
+    let status: EnvDiffRow['status'];
+    if (!env) status = 'added';
+    else if (localValue === undefined) status = 'removed';
+    else if (env.value === undefined) status = 'unknown';
+    else status = env.value === localValue ? 'unchanged' : 'changed';
+    return { key, status, local: maskValue(localValue), remote: env ? maskValue(env.value) : null };
+  });
+}
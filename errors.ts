@@ -0,0 +1,34 @@
+// Base class for failures talking to the Vercel API; run() prints the message and exits non-zero
+export class VercelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ApiError extends VercelError {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public method?: string,
+    public path?: string,
+    // Remaining fields of the API's error body, such as the hashes listed with missing_files
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+  }
+}
+
+export class RateLimitError extends ApiError {
+  // Epoch milliseconds at which the rate limit window resets, when the API reported it
+  constructor(message: string, method?: string, path?: string, public resetAt?: number) {
+    super(message, 429, 'rate_limited', method, path);
+  }
+}
+
+export class NetworkError extends VercelError {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
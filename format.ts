@@ -0,0 +1,201 @@
+import { stringify as stringifyYaml } from 'yaml';
+
+export type OutputFormat = 'json' | 'table' | 'csv' | 'yaml';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'csv', 'yaml'];
+
+interface Column {
+  name: string;
+  value: (row: any) => unknown;
+  time?: boolean;
+}
+
+const column = (name: string, path: string, time = false): Column => ({
+  name,
+  value: (row) => getPath(row, path),
+  time,
+});
+
+const projectColumns = [
+  column('name', 'name'),
+  column('framework', 'framework'),
+  column('updated', 'updatedAt', true),
+];
+
+const deploymentColumns = [
+  column('url', 'url'),
+  { name: 'state', value: (row: any) => row.readyState ?? row.state },
+  { name: 'target', value: (row: any) => row.target ?? 'preview' },
+  { name: 'age', value: (row: any) => row.createdAt ?? row.created, time: true },
+];
+
+const domainColumns = [
+  column('name', 'name'),
+  column('verified', 'verified'),
+  column('age', 'createdAt', true),
+];
+
+const envColumns = [
+  column('key', 'key'),
+  column('target', 'target'),
+  column('type', 'type'),
+  column('updated', 'updatedAt', true),
+];
+
+const certColumns = [
+  column('id', 'uid'),
+  column('domains', 'cns'),
+  column('expires', 'expiresAt', true),
+];
+
+const changeColumns = [column('resource', 'resource'), column('action', 'action'), column('name', 'name'), column('detail', 'detail')];
+
+// Default columns per resource, keyed by the property the API nests the resource under
+const RESOURCE_COLUMNS: Record<string, Column[]> = {
+  projects: projectColumns,
+  project: projectColumns,
+  deployments: deploymentColumns,
+  deployment: deploymentColumns,
+  domains: domainColumns,
+  domain: domainColumns,
+  envs: envColumns,
+  env: envColumns,
+  records: [column('name', 'name'), column('type', 'type'), column('value', 'value'), column('ttl', 'ttl')],
+  imported: [column('action', 'action'), column('name', 'name'), column('type', 'type'), column('value', 'value'), column('ttl', 'ttl')],
+  certs: certColumns,
+  cert: certColumns,
+  expiry: [
+    column('status', 'status'),
+    column('cert', 'cert'),
+    column('domains', 'domains'),
+    column('project', 'project'),
+    column('days left', 'daysLeft'),
+    column('auto-renew', 'autoRenew'),
+  ],
+  aliases: [column('alias', 'alias'), column('deployment', 'deploymentId'), column('age', 'createdAt', true)],
+  teams: [column('slug', 'slug'), column('name', 'name'), column('id', 'id')],
+  team: [column('slug', 'slug'), column('name', 'name'), column('id', 'id')],
+  user: [column('username', 'username'), column('email', 'email'), column('name', 'name')],
+  secrets: [column('name', 'name'), column('id', 'uid'), column('created', 'created', true)],
+  changes: changeColumns,
+  applied: changeColumns,
+  requests: [column('method', 'method'), column('path', 'path'), column('body', 'body')],
+  history: [
+    column('age', 'created', true),
+    column('id', 'id'),
+    column('state', 'state'),
+    { name: 'commit', value: (row: any) => row.sha?.slice(0, 7) },
+    column('message', 'message'),
+    column('author', 'author'),
+    { name: 'current', value: (row: any) => (row.current ? '*' : '') },
+  ],
+  checks: [column('type', 'type'), column('name', 'name'), column('value', 'value'), column('found', 'found'), column('ok', 'ok')],
+  diff: [column('key', 'key'), column('status', 'status'), column('local', 'local'), column('remote', 'remote')],
+  files: [column('path', 'path'), column('type', 'type'), column('id', 'uid')],
+  functions: [
+    column('path', 'path'),
+    column('type', 'type'),
+    column('runtime', 'runtime'),
+    column('regions', 'regions'),
+    column('memory', 'memory'),
+    column('timeout', 'maxDuration'),
+  ],
+  status: [
+    column('project', 'project'),
+    column('production', 'production.state'),
+    column('deployed', 'production.created', true),
+    column('preview', 'preview.state'),
+    column('branch', 'preview.ref'),
+    column('building', 'building'),
+    column('errors', 'errors'),
+    column('domains', 'domains'),
+  ],
+  prune: [
+    column('age', 'created', true),
+    column('id', 'id'),
+    column('branch', 'branch'),
+    column('state', 'state'),
+    column('reason', 'reason'),
+    column('result', 'result'),
+  ],
+  differences: [column('kind', 'kind'), column('name', 'name'), column('change', 'change'), column('from', 'from'), column('to', 'to')],
+  events: [column('time', 'created', true), column('type', 'type'), { name: 'text', value: (row: any) => row.payload?.text ?? row.text }],
+};
+
+export function formatOutput(data: any, resource: string | undefined, format: OutputFormat, fields?: string[]): string {
+  if (!fields && format === 'json') return JSON.stringify(data, null, 2);
+  if (!fields && format === 'yaml') return renderYaml(data);
+
+  const rows = extractRows(data, resource);
+  const columns = resolveColumns(rows, resource, fields);
+
+  if (format === 'json' || format === 'yaml') {
+    const projected = rows.map((row) => Object.fromEntries(columns.map((c) => [c.name, c.value(row) ?? null])));
+    return format === 'json' ? JSON.stringify(projected, null, 2) : renderYaml(projected);
+  }
+
+  const cells = rows.map((row) => columns.map((c) => renderCell(c.value(row), c.time ? format : undefined)));
+  const headers = columns.map((c) => c.name);
+  return format === 'csv' ? renderCsv(headers, cells) : renderTable(headers, cells);
+}
+
+function extractRows(data: any, resource?: string): any[] {
+  if (Array.isArray(data)) return data;
+  if (resource && Array.isArray(data?.[resource])) return data[resource];
+  if (resource && data?.[resource] && typeof data[resource] === 'object') return [data[resource]];
+  return data === undefined ? [] : [data];
+}
+
+function resolveColumns(rows: any[], resource?: string, fields?: string[]): Column[] {
+  const defaults = (resource && RESOURCE_COLUMNS[resource]) || [];
+  if (fields) {
+    return fields.map((field) => defaults.find((c) => c.name === field) || column(field, field));
+  }
+  if (defaults.length) return defaults;
+  const first = rows.find((row) => row && typeof row === 'object') || {};
+  return Object.keys(first)
+    .filter((key) => !isCollection(first[key]) || Array.isArray(first[key]))
+    .map((key) => column(key, key));
+}
+
+function getPath(value: any, path: string): unknown {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+function renderCell(value: unknown, timeFormat?: 'table' | 'csv'): string {
+  if (value === null || value === undefined) return '';
+  if (timeFormat && typeof value === 'number') {
+    return timeFormat === 'table' ? formatAge(value) : new Date(value).toISOString();
+  }
+  if (Array.isArray(value)) return value.map((item) => renderCell(item)).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatAge(time: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - time) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 172800) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(headers.map((header) => header.toUpperCase())), ...rows.map(line)].join('\n');
+}
+
+// Without the newline that ends the document, which console.log adds back
+function renderYaml(value: unknown): string {
+  return stringifyYaml(value, { lineWidth: 0 }).replace(/\n$/, '');
+}
+
+function renderCsv(headers: string[], rows: string[][]): string {
+  const cell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [headers, ...rows].map((row) => row.map(cell).join(',')).join('\n');
+}
+
+function isCollection(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
@@ -0,0 +1,150 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponseHeaders, RawAxiosResponseHeaders } from 'axios';
+import { sleep } from './async';
+import { ApiError, NetworkError, RateLimitError, VercelError } from './errors';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Retries allowed for this request; defaults to the client's setting
+    retries?: number;
+    retryCount?: number;
+  }
+}
+
+export interface HttpOptions {
+  baseURL: string;
+  token: string;
+  teamId?: string;
+  retries?: number;
+  timeout?: number;
+  onRetry?: (message: string) => void;
+  // When set, requests that change state are reported here instead of being sent
+  onDryRun?: (request: DryRunRequest) => void;
+}
+
+export interface DryRunRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+interface VercelApiErrorBody {
+  error?: {
+    code?: string;
+    message?: string;
+    [key: string]: unknown;
+  };
+}
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+const MAX_RATE_LIMIT_WAIT = 60000;
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const READ_METHODS = ['get', 'head', 'options'];
+const RETRYABLE_STATUSES = [408, 500, 502, 503, 504];
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+
+export function createHttpClient(options: HttpOptions): AxiosInstance {
+  const api = axios.create({
+    baseURL: options.baseURL,
+    timeout: options.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    headers: {
+      'Authorization': `Bearer ${options.token}`,
+      'Content-Type': 'application/json',
+    },
+    ...(options.teamId && { params: { teamId: options.teamId } }),
+  });
+  api.defaults.retries = options.retries ?? DEFAULT_RETRIES;
+
+  // Reads still go out so commands can resolve names and show what they would change
+  const { onDryRun } = options;
+  if (onDryRun) {
+    api.interceptors.request.use((config) => {
+      const method = (config.method || 'get').toUpperCase();
+      if (READ_METHODS.includes(method.toLowerCase())) return config;
+      const query = new URLSearchParams(config.params).toString();
+      const body = Buffer.isBuffer(config.data) ? `<${config.data.length} bytes>` : config.data;
+      onDryRun({ method, path: `${config.url}${query ? `?${query}` : ''}`, ...(body !== undefined && { body }) });
+      config.adapter = async () => ({ data: {}, status: 200, statusText: 'OK', headers: {}, config });
+      return config;
+    });
+  }
+
+  // Retry transient failures, then reject with a typed error for the caller to handle
+  api.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const config = error.config;
+      if (!config) throw toVercelError(error);
+
+      const attempt = config.retryCount || 0;
+      const delay = retryDelay(error, attempt);
+      if (delay === undefined || attempt >= (config.retries ?? 0)) throw toVercelError(error);
+
+      config.retryCount = attempt + 1;
+      options.onRetry?.(
+        `Retrying ${config.method?.toUpperCase()} ${config.url} in ${(delay / 1000).toFixed(1)}s ` +
+          `(retry ${attempt + 1}/${config.retries}): ${toVercelError(error).message}`,
+      );
+      await sleep(delay);
+      return api.request(config);
+    },
+  );
+
+  return api;
+}
+
+// Rate-limited requests were never processed, so they are retried for every method;
+// other transient failures only for idempotent methods
+function retryDelay(error: AxiosError, attempt: number): number | undefined {
+  const status = error.response?.status;
+  if (status === 429) {
+    const wait = headerDelay(error.response!.headers);
+    if (wait !== undefined) return wait <= MAX_RATE_LIMIT_WAIT ? wait : undefined;
+    return backoff(attempt);
+  }
+
+  if (!IDEMPOTENT_METHODS.includes((error.config?.method || 'get').toLowerCase())) return undefined;
+  const transient = status ? RETRYABLE_STATUSES.includes(status) : RETRYABLE_CODES.includes(error.code || '');
+  if (!transient) return undefined;
+  const wait = error.response ? headerDelay(error.response.headers) : undefined;
+  return wait !== undefined ? Math.min(wait, MAX_RETRY_DELAY) : backoff(attempt);
+}
+
+// Exponential backoff with full jitter
+function backoff(attempt: number): number {
+  return Math.round(Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempt + 1)));
+}
+
+function headerDelay(headers: RawAxiosResponseHeaders | AxiosResponseHeaders): number | undefined {
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(String(retryAfter));
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const reset = Number(headers['x-ratelimit-reset']);
+  return reset ? Math.max(0, reset * 1000 - Date.now()) : undefined;
+}
+
+export function toVercelError(error: AxiosError): VercelError {
+  const method = error.config?.method?.toUpperCase();
+  const path = error.config?.url;
+  if (!error.response) return new NetworkError(`Request failed: ${error.message}`, error.code);
+
+  const { status, statusText, headers } = error.response;
+  const body = error.response.data as VercelApiErrorBody | undefined;
+  const message = body?.error?.message ? `API Error: ${body.error.message}` : `HTTP ${status}: ${statusText}`;
+
+  if (status === 429) {
+    const reset = Number(headers['x-ratelimit-reset']);
+    const resetAt = reset ? reset * 1000 : undefined;
+    const suffix = resetAt ? ` (rate limit resets at ${new Date(resetAt).toISOString()})` : '';
+    return new RateLimitError(`${message}${suffix}`, method, path, resetAt);
+  }
+  const { code, message: _, ...details } = body?.error || {};
+  return new ApiError(message, status, code, method, path, Object.keys(details).length ? details : undefined);
+}
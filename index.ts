@@ -0,0 +1,13 @@
+// Library entry point: `import { VercelClient } from 'vercel-cli-plugin'`
+export { VercelClient, ClientOptions, DEFAULT_BASE_URL, GIT_PROVIDERS, parseDeploymentRef, parseGitRepository, PROJECT_SETTING_KEYS, TERMINAL_STATES } from './client';
+export { ApiError, NetworkError, RateLimitError, VercelError } from './errors';
+export * from './types';
+export { AttachedDomain, CertCheck, certCovers, certExpiry, CertificateInfo, checkCerts, inspectCertificate } from './certs';
+export { checkRecords, DnsResolver, RecordCheck, RequiredRecord, requiredRecords } from './dnscheck';
+export { deploymentFunctions, diffDeployments, filterFileEntries, flattenFileTree } from './inspect';
+export { planPrune, RetentionPolicy } from './retention';
+export { projectStatus, statusChanges } from './status';
+export { collectFiles, createIgnoreFilter, LocalFile } from './upload';
+export { checkBudget, groupUsage, readBudget, sumUsage, UsageBudget, UsageGrouping } from './usage';
+export { diffZone, formatZoneFile, parseRecord, parseZoneFile, ZoneImport } from './zonefile';
+export { default as VercelCLI } from './cli';
@@ -0,0 +1,109 @@
+import { deploymentCommit, PROJECT_SETTING_KEYS } from './client';
+import {
+  Deployment,
+  DeploymentBuild,
+  DeploymentDifference,
+  DeploymentFileEntry,
+  DeploymentFileNode,
+  DeploymentFunction,
+} from './types';
+
+export function flattenFileTree(nodes: DeploymentFileNode[], parent = ''): DeploymentFileEntry[] {
+  return nodes.flatMap((node) => {
+    const path = parent ? `${parent}/${node.name}` : node.name;
+    const entry: DeploymentFileEntry = { path, type: node.type };
+    if (node.uid) entry.uid = node.uid;
+    if (node.mode !== undefined) entry.mode = node.mode;
+    return node.type === 'directory' ? [entry, ...flattenFileTree(node.children || [], path)] : [entry];
+  });
+}
+
+// Entries at or below a path, which may name a file or a directory
+export function filterFileEntries(entries: DeploymentFileEntry[], path?: string): DeploymentFileEntry[] {
+  const prefix = path?.replace(/^\/+|\/+$/g, '');
+  if (!prefix) return entries;
+  return entries.filter((entry) => entry.path === prefix || entry.path.startsWith(`${prefix}/`));
+}
+
+// Serverless and edge functions among the build outputs. Regions come from where the function was
+// deployed, falling back to the deployment's regions; edge functions run everywhere.
+export function deploymentFunctions(builds: DeploymentBuild[], deployment: Deployment): DeploymentFunction[] {
+  const functions = builds.flatMap((build) =>
+    (build.output || []).flatMap((output): DeploymentFunction[] => {
+      const size = output.size ?? null;
+      if (output.type === 'edge') {
+        return [{ path: output.path, type: 'edge', runtime: output.edge?.runtime ?? 'edge', regions: ['global'], memory: null, maxDuration: null, size }];
+      }
+      if (output.type !== 'lambda') return [];
+      const lambda = output.lambda || {};
+      return [
+        {
+          path: output.path,
+          type: 'serverless',
+          runtime: lambda.runtime ?? build.use ?? null,
+          regions: lambda.deployedTo ?? deployment.regions ?? [],
+          memory: lambda.memorySize ?? null,
+          maxDuration: lambda.timeout ?? null,
+          size,
+        },
+      ];
+    }),
+  );
+  return functions.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Differences in git source, build settings, env var names and files between two deployments.
+// File contents are compared by the hash the API gives each file; values of env vars are not
+// part of a deployment, so only added and removed names show.
+export function diffDeployments(
+  from: Deployment,
+  to: Deployment,
+  fromFiles: DeploymentFileEntry[],
+  toFiles: DeploymentFileEntry[],
+): DeploymentDifference[] {
+  const differences: DeploymentDifference[] = [];
+  const compare = (kind: DeploymentDifference['kind'], name: string, a?: string, b?: string) => {
+    if (a === b) return;
+    const change = a === undefined ? 'added' : b === undefined ? 'removed' : 'changed';
+    differences.push({ kind, name, change, ...(a !== undefined && { from: a }), ...(b !== undefined && { to: b }) });
+  };
+
+  const fromCommit = deploymentCommit(from);
+  const toCommit = deploymentCommit(to);
+  compare('git', 'ref', fromCommit.ref, toCommit.ref);
+  compare('git', 'sha', fromCommit.sha, toCommit.sha);
+
+  compare('config', 'target', from.target ?? 'preview', to.target ?? 'preview');
+  compare('config', 'regions', from.regions?.join(','), to.regions?.join(','));
+  for (const key of PROJECT_SETTING_KEYS) {
+    compare('config', key, from.projectSettings?.[key] ?? undefined, to.projectSettings?.[key] ?? undefined);
+  }
+  compare('config', 'functions', from.functions ? JSON.stringify(from.functions) : undefined, to.functions ? JSON.stringify(to.functions) : undefined);
+
+  const fromEnv = envNames(from);
+  const toEnv = envNames(to);
+  for (const name of [...new Set([...fromEnv, ...toEnv])].sort()) {
+    if (!fromEnv.has(name)) differences.push({ kind: 'env', name, change: 'added' });
+    else if (!toEnv.has(name)) differences.push({ kind: 'env', name, change: 'removed' });
+  }
+
+  const fromHashes = fileHashes(fromFiles);
+  const toHashes = fileHashes(toFiles);
+  for (const path of [...new Set([...fromHashes.keys(), ...toHashes.keys()])].sort()) {
+    const a = fromHashes.get(path);
+    const b = toHashes.get(path);
+    // A file in both deployments can only be compared when both sides have a hash
+    if (a !== undefined && b !== undefined && (!a || !b)) continue;
+    compare('file', path, a, b);
+  }
+  return differences;
+}
+
+function envNames(deployment: Deployment): Set<string> {
+  return new Set([...(deployment.env || []), ...(deployment.build?.env || [])]);
+}
+
+// File hashes by path, '' where the API gives none
+function fileHashes(entries: DeploymentFileEntry[]): Map<string, string> {
+  return new Map(entries.filter((entry) => entry.type !== 'directory').map((entry) => [entry.path, entry.uid ?? '']));
+}
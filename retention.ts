@@ -0,0 +1,61 @@
+import { deploymentCommit } from './client';
+import { Deployment, DeploymentState, PruneCandidate } from './types';
+
+// Which deployments of a project deployments-prune deletes. A deployment is deleted only when it
+// matches every rule that is set.
+export interface RetentionPolicy {
+  // Keep the newest n deployments of each branch
+  keep?: number;
+  // Only deployments created before this time
+  before?: number;
+  // Only deployments in one of these states
+  states?: DeploymentState[];
+  // Consider production deployments as well as previews
+  includeProduction?: boolean;
+}
+
+const deploymentId = (deployment: Deployment) => deployment.id || deployment.uid!;
+const created = (deployment: Deployment) => deployment.createdAt ?? deployment.created ?? 0;
+
+// Deployments the policy deletes, newest first. Protected IDs (the current production deployment
+// and anything an alias points at) are never deleted, but still count towards keep.
+export function planPrune(deployments: Deployment[], policy: RetentionPolicy, protectedIds: Set<string>): PruneCandidate[] {
+  const considered = deployments
+    .filter((deployment) => policy.includeProduction || deployment.target !== 'production')
+    .sort((a, b) => created(b) - created(a));
+
+  const seen = new Map<string, number>();
+  const candidates: PruneCandidate[] = [];
+  for (const deployment of considered) {
+    const branch = deploymentCommit(deployment).ref ?? null;
+    const rank = (seen.get(branch ?? '') ?? 0) + 1;
+    seen.set(branch ?? '', rank);
+
+    const state = deployment.readyState ?? deployment.state;
+    const reasons: string[] = [];
+    if (policy.keep !== undefined) {
+      if (rank <= policy.keep) continue;
+      reasons.push(`beyond the newest ${policy.keep} of ${branch ?? 'deployments without a branch'}`);
+    }
+    if (policy.before !== undefined) {
+      if (created(deployment) >= policy.before) continue;
+      reasons.push(`created before ${new Date(policy.before).toISOString()}`);
+    }
+    if (policy.states) {
+      if (!state || !policy.states.includes(state)) continue;
+      reasons.push(`state ${state}`);
+    }
+    if (protectedIds.has(deploymentId(deployment))) continue;
+
+    candidates.push({
+      id: deploymentId(deployment),
+      url: deployment.url,
+      branch,
+      state,
+      target: deployment.target ?? 'preview',
+      created: created(deployment),
+      reason: reasons.join(', '),
+    });
+  }
+  return candidates;
+}
@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { GIT_PROVIDERS, parseGitRepository, PROJECT_SETTING_KEYS } from './client';
+import { envTargets } from './envfile';
+import { DnsRecord, DnsRecordInput, EnvTarget, EnvType, EnvVar, GitProvider, GitRepository, ProjectSettings, ProjectState } from './types';
+import { parseRecord, recordFromApi, recordKey } from './zonefile';
+
+// A project's configuration as a versionable document: settings, git link, domains, env vars and DNS.
+// Sections that are left out of a spec are not managed by plan/apply.
+export interface ProjectSpec {
+  name: string;
+  settings?: ProjectSettings;
+  git?: GitRepository;
+  domains?: string[];
+  env?: EnvSpec[];
+  // Records keyed by DNS zone (apex domain)
+  dns?: Record<string, DnsRecordInput[]>;
+}
+
+export interface EnvSpec {
+  key: string;
+  target: EnvTarget[];
+  type?: EnvType;
+  gitBranch?: string;
+  comment?: string;
+  // Omitted for values that are not exported; such a variable is kept as it is remotely
+  value?: string;
+}
+
+export interface SpecChange {
+  resource: 'project' | 'settings' | 'git' | 'domain' | 'env' | 'dns';
+  action: 'create' | 'update' | 'remove';
+  name: string;
+  detail?: string;
+  // What apply needs for the change, depending on the resource
+  settings?: ProjectSettings;
+  git?: ProjectSpec['git'];
+  env?: Partial<EnvSpec>;
+  remote?: EnvVar;
+  zone?: string;
+  record?: DnsRecordInput;
+  recordId?: string;
+}
+
+export interface SpecPlan {
+  changes: SpecChange[];
+  warnings: string[];
+}
+
+const TARGET_ORDER: EnvTarget[] = ['production', 'preview', 'development'];
+
+const sortTargets = (targets: EnvTarget[]) => TARGET_ORDER.filter((target) => targets.includes(target));
+const sameTargets = (a: EnvTarget[], b: EnvTarget[]) => sortTargets(a).join() === sortTargets(b).join();
+const isSystemRecord = (record: DnsRecord) => record.creator === 'system';
+const show = (value: unknown) => (value === undefined || value === null ? 'none' : `'${value}'`);
+
+export function readSpec(file: string): ProjectSpec {
+  if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+  let spec: any;
+  try {
+    spec = parseYaml(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${(error as Error).message}`);
+  }
+  const invalid = (message: string) => new Error(`Invalid spec ${file}: ${message}`);
+
+  if (!spec || typeof spec !== 'object' || typeof spec.name !== 'string') throw invalid('a project name is required');
+  if (spec.git) {
+    if (typeof spec.git.repo !== 'string') throw invalid('git.repo must be namespace/name or a repository URL');
+    if (spec.git.type !== undefined && !GIT_PROVIDERS.includes(spec.git.type)) throw invalid(`git.type must be one of ${GIT_PROVIDERS.join(', ')}`);
+    // Compared with the project's link as type and namespace/name, so URLs are normalized here
+    try {
+      const { type, repo } = parseGitRepository(spec.git.repo, spec.git.type);
+      spec.git = { type, repo };
+    } catch (error) {
+      throw invalid(`git.repo: ${(error as Error).message}`);
+    }
+  }
+  if (spec.domains && !Array.isArray(spec.domains)) throw invalid('domains must be a list');
+
+  spec.env = spec.env?.map((env: any, i: number): EnvSpec => {
+    const targets = typeof env?.target === 'string' ? [env.target] : env?.target;
+    if (typeof env?.key !== 'string') throw invalid(`env[${i}] needs a key`);
+    if (!Array.isArray(targets) || !targets.length || targets.some((t: string) => !TARGET_ORDER.includes(t as EnvTarget))) {
+      throw invalid(`env[${i}] (${env.key}) needs a target of ${TARGET_ORDER.join(', ')}`);
+    }
+    // YAML reads PORT: 3000 as a number; the API only takes strings
+    return { ...env, target: sortTargets(targets), ...(env.value !== undefined && env.value !== null && { value: String(env.value) }) };
+  });
+
+  for (const [zone, records] of Object.entries<any>(spec.dns || {})) {
+    if (!Array.isArray(records)) throw invalid(`dns.${zone} must be a list of records`);
+    records.forEach((record: any, i: number) => {
+      if (typeof record?.type !== 'string' || record.value === undefined) throw invalid(`dns.${zone}[${i}] needs a type and value`);
+      record.name = record.name ?? '';
+      record.value = String(record.value);
+      // SRV and HTTPS records are written with their data in value only
+      if ((record.type === 'SRV' || record.type === 'HTTPS') && !record.srv && !record.https) {
+        try {
+          Object.assign(record, parseRecord(record.type, record.name, record.value, record.ttl));
+        } catch (error) {
+          throw invalid(`dns.${zone}[${i}]: ${(error as Error).message}`);
+        }
+      }
+    });
+  }
+  return spec;
+}
+
+// JSON for .json files, YAML otherwise. The yaml package quotes any string readSpec would otherwise
+// parse as something else, such as 0x1F or .inf, so a spec reads back as it was written.
+export function formatSpec(spec: ProjectSpec, file?: string): string {
+  if (file && path.extname(file).toLowerCase() === '.json') return JSON.stringify(spec, null, 2) + '\n';
+  return stringifyYaml(spec, { lineWidth: 0 });
+}
+
+// Secret values are only included on request; plain values always are
+export function specFromState(state: ProjectState, includeValues = false): ProjectSpec {
+  const project = state.project!;
+  const settings = Object.fromEntries(PROJECT_SETTING_KEYS.filter((key) => project[key] != null).map((key) => [key, project[key]]));
+  const spec: ProjectSpec = { name: project.name };
+  if (Object.keys(settings).length) spec.settings = settings;
+  const repo = gitRepo(state);
+  if (repo) spec.git = { type: project.link!.type as GitProvider, repo };
+
+  spec.domains = state.domains.map((domain) => domain.name).sort();
+  spec.env = state.envs
+    .filter((env) => env.type !== 'system')
+    .map((env) => ({
+      key: env.key,
+      target: sortTargets(envTargets(env)),
+      ...(env.type && { type: env.type }),
+      ...(env.gitBranch && { gitBranch: env.gitBranch }),
+      ...(env.comment && { comment: env.comment }),
+      ...(env.value !== undefined && (env.type === 'plain' || includeValues) && { value: env.value }),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key) || a.target.join().localeCompare(b.target.join()));
+  spec.dns = Object.fromEntries(
+    Object.entries(state.dns).map(([zone, records]) => [
+      zone,
+      records
+        .filter((record) => !isSystemRecord(record))
+        .map((record) => {
+          const { srv, https, ...input } = recordFromApi(record);
+          return input;
+        }),
+    ]),
+  );
+  return spec;
+}
+
+function gitRepo(state: ProjectState): string | undefined {
+  const link = state.project?.link;
+  if (!link?.type || !link.repo) return undefined;
+  return link.org ? `${link.org}/${link.repo}` : link.repo;
+}
+
+// Changes that converge the live state on the spec, in the order they must be applied. Resources
+// missing from the spec are only removed with prune.
+export function planSpec(spec: ProjectSpec, state: ProjectState, prune = false): SpecPlan {
+  const changes: SpecChange[] = [];
+  const warnings: string[] = [];
+  const project = state.project;
+
+  if (!project) {
+    changes.push({ resource: 'project', action: 'create', name: spec.name, settings: spec.settings, git: spec.git });
+  } else {
+    const settings = Object.fromEntries(
+      PROJECT_SETTING_KEYS.filter((key) => spec.settings?.[key] !== undefined && (project[key] ?? null) !== spec.settings[key]).map((key) => [
+        key,
+        spec.settings![key],
+      ]),
+    );
+    if (Object.keys(settings).length) {
+      const detail = Object.entries(settings).map(([key, value]) => `${key}: ${show(project[key])} -> ${show(value)}`);
+      changes.push({ resource: 'settings', action: 'update', name: spec.name, detail: detail.join(', '), settings });
+    }
+    const repo = gitRepo(state);
+    const provider = project.link?.type;
+    if (spec.git && (repo !== spec.git.repo || provider !== spec.git.type)) {
+      const detail = `was ${repo ? `${provider} ${repo}` : 'not linked'}`;
+      changes.push({ resource: 'git', action: 'update', name: `${spec.git.type} ${spec.git.repo}`, detail, git: spec.git });
+    }
+  }
+
+  if (spec.domains) {
+    const live = state.domains.map((domain) => domain.name);
+    for (const name of spec.domains.filter((domain) => !live.includes(domain))) {
+      changes.push({ resource: 'domain', action: 'create', name });
+    }
+    if (prune) {
+      for (const name of live.filter((domain) => !spec.domains!.includes(domain))) {
+        changes.push({ resource: 'domain', action: 'remove', name });
+      }
+    }
+  }
+
+  if (spec.env) changes.push(...planEnv(spec.env, state.envs, prune, warnings));
+
+  for (const [zone, records] of Object.entries(spec.dns || {})) {
+    if (!state.dns[zone]) {
+      warnings.push(`DNS zone ${zone} is not hosted by Vercel; its records are skipped`);
+      continue;
+    }
+    changes.push(...planDns(zone, records, state.dns[zone], prune));
+  }
+
+  return { changes, warnings };
+}
+
+const envName = (env: { key: string; target?: EnvTarget[]; gitBranch?: string }) =>
+  `${env.key} (${sortTargets(env.target || []).join(',')}${env.gitBranch ? `, branch ${env.gitBranch}` : ''})`;
+
+// A spec entry matches the remote variable with the same key, branch and targets, or failing that
+// one whose targets overlap, whose targets are then updated. Removals come first so that updated
+// and created variables never overlap a variable that is about to go away.
+function planEnv(desired: EnvSpec[], remote: EnvVar[], prune: boolean, warnings: string[]): SpecChange[] {
+  const live = remote.filter((env) => env.type !== 'system');
+  const matched = new Set<EnvVar>();
+  const updates: SpecChange[] = [];
+  const creates: SpecChange[] = [];
+
+  for (const env of desired) {
+    const candidates = live.filter(
+      (candidate) => !matched.has(candidate) && candidate.key === env.key && (candidate.gitBranch || undefined) === (env.gitBranch || undefined),
+    );
+    const match =
+      candidates.find((candidate) => sameTargets(envTargets(candidate), env.target)) ||
+      candidates.find((candidate) => envTargets(candidate).some((target) => env.target.includes(target)));
+
+    if (!match) {
+      if (env.value === undefined) warnings.push(`env ${envName(env)} has no value in the spec and is not created`);
+      else creates.push({ resource: 'env', action: 'create', name: envName(env), env });
+      continue;
+    }
+
+    matched.add(match);
+    const update: Partial<EnvSpec> = {};
+    if (!sameTargets(envTargets(match), env.target)) update.target = env.target;
+    if (env.type !== undefined && env.type !== match.type) update.type = env.type;
+    if (env.comment !== undefined && env.comment !== (match.comment || '')) update.comment = env.comment;
+    // Values that cannot be read back are always rewritten
+    if (env.value !== undefined && env.value !== match.value) update.value = env.value;
+    if (Object.keys(update).length) {
+      updates.push({ resource: 'env', action: 'update', name: envName(env), detail: Object.keys(update).join(', '), env: update, remote: match });
+    }
+  }
+
+  const removes = prune
+    ? live
+        .filter((env) => !matched.has(env))
+        .map((env): SpecChange => ({ resource: 'env', action: 'remove', name: envName({ ...env, target: envTargets(env) }), remote: env }))
+    : [];
+  return [...removes, ...updates, ...creates];
+}
+
+function planDns(zone: string, desired: DnsRecordInput[], remote: DnsRecord[], prune: boolean): SpecChange[] {
+  const live = remote.filter((record) => !isSystemRecord(record));
+  const matched = new Set<DnsRecord>();
+  const changes: SpecChange[] = [];
+  const name = (record: DnsRecordInput) => `${record.name ? `${record.name}.${zone}` : zone} ${record.type} ${record.value}`;
+
+  for (const record of desired) {
+    const match = live.find((candidate) => !matched.has(candidate) && recordKey(recordFromApi(candidate)) === recordKey(record));
+    if (!match) {
+      changes.push({ resource: 'dns', action: 'create', name: name(record), zone, record });
+      continue;
+    }
+    matched.add(match);
+    if (record.ttl !== undefined && record.ttl !== match.ttl) {
+      changes.push({ resource: 'dns', action: 'update', name: name(record), detail: `ttl: ${match.ttl} -> ${record.ttl}`, zone, record, recordId: match.id });
+    }
+  }
+
+  if (prune) {
+    for (const record of live.filter((candidate) => !matched.has(candidate))) {
+      changes.push({ resource: 'dns', action: 'remove', name: name(record), zone, recordId: record.id });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,57 @@
+import { deploymentCommit } from './client';
+import { Deployment, DeploymentState, Domain, Project, ProjectStatus, StatusDeployment } from './types';
+
+const IN_PROGRESS: DeploymentState[] = ['QUEUED', 'INITIALIZING', 'BUILDING'];
+
+function statusDeployment(deployment: Deployment | undefined): StatusDeployment | null {
+  if (!deployment) return null;
+  return {
+    id: deployment.id || deployment.uid!,
+    url: deployment.url,
+    state: deployment.readyState ?? deployment.state,
+    ref: deploymentCommit(deployment).ref,
+    created: deployment.createdAt ?? deployment.created,
+  };
+}
+
+// A project's row of the status dashboard from its most recent deployments (newest first) and its
+// domains. The production deployment comes from the project's target, which can be older than any
+// of the recent ones.
+export function projectStatus(project: Project, recent: Deployment[], domains: Domain[]): ProjectStatus {
+  const state = (deployment: Deployment) => deployment.readyState ?? deployment.state;
+  return {
+    project: project.name,
+    production: statusDeployment(project.targets?.production ?? recent.find((d) => d.target === 'production')),
+    preview: statusDeployment(recent.find((d) => d.target !== 'production')),
+    building: recent.filter((d) => IN_PROGRESS.includes(state(d)!)).length,
+    errors: recent.filter((d) => state(d) === 'ERROR').length,
+    domains: domains.map((domain) => domain.name),
+  };
+}
+
+// What changed in each project since the previous refresh, e.g. "preview BUILDING -> READY".
+// Projects that appeared or went away are reported too.
+export function statusChanges(previous: ProjectStatus[], current: ProjectStatus[]): Map<string, string[]> {
+  const before = new Map(previous.map((row) => [row.project, row]));
+  const changes = new Map<string, string[]>();
+  for (const row of current) {
+    const old = before.get(row.project);
+    const list: string[] = [];
+    if (!old) {
+      list.push('new project');
+    } else {
+      for (const key of ['production', 'preview'] as const) {
+        const [a, b] = [old[key], row[key]];
+        if (a?.id !== b?.id) list.push(`${key} ${b ? `${b.id} ${b.state ?? ''}`.trim() : 'none'}`);
+        else if (a?.state !== b?.state) list.push(`${key} ${a?.state} -> ${b?.state}`);
+      }
+      if (old.building !== row.building) list.push(`building ${old.building} -> ${row.building}`);
+      if (old.errors !== row.errors) list.push(`errors ${old.errors} -> ${row.errors}`);
+      if (old.domains.join() !== row.domains.join()) list.push('domains');
+    }
+    if (list.length) changes.set(row.project, list);
+    before.delete(row.project);
+  }
+  for (const project of before.keys()) changes.set(project, ['removed']);
+  return changes;
+}
@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { runCli, runJson, tempDir } from './harness';
+import { SHOP_CERT, SHOP_KEY } from './fixtures';
+import { MOCK_TOKEN, MockVercelApi } from './mock-server';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+describe('user and teams', () => {
+  test('shows the current user', async () => {
+    assert.equal((await runJson(api, ['user'])).user.username, 'tester');
+  });
+
+  test('lists teams and gets one by slug', async () => {
+    assert.deepEqual((await runJson(api, ['teams'])).teams.map((t: any) => t.id), ['team_acme']);
+    assert.equal((await runJson(api, ['team', 'acme'])).id, 'team_acme');
+  });
+
+  test('scopes requests to the team given by slug', async () => {
+    await runJson(api, ['projects', '--team', 'acme']);
+    const list = api.sent('GET').find((r) => r.path === '/v10/projects')!;
+    assert.equal(list.query.teamId, 'team_acme');
+  });
+
+  test('reports a team the token cannot access', async () => {
+    const result = await runCli(api, ['projects', '--team', 'team_other']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /permission to access this team/);
+  });
+});
+
+describe('auth profiles', () => {
+  test('logs in with a piped token and uses the profile', async () => {
+    const env = { VERCEL_CONFIG: path.join(tempDir(), 'vercel.json'), VERCEL_TOKEN: undefined };
+    const login = await runJson(api, ['auth', 'login', 'work', '--team', 'acme', '--project', 'web'], { input: `${MOCK_TOKEN}\n`, env });
+    assert.equal(login.team, 'acme');
+
+    const whoami = await runJson(api, ['auth', 'whoami'], { env });
+    assert.deepEqual(whoami, { profile: 'work', username: 'tester', email: 'tester@example.com', team: 'team_acme', project: 'web' });
+
+    // The profile's default project fills in <project>
+    const { envs } = await runJson(api, ['env-list', '--env', 'development'], { env });
+    assert.deepEqual(envs.map((e: any) => e.key), ['DATABASE_URL']);
+  });
+
+  test('uses the current profile over VERCEL_TOKEN from the environment', async () => {
+    const env = { VERCEL_CONFIG: path.join(tempDir(), 'vercel.json') };
+    await runJson(api, ['auth', 'login', 'work', '--team', 'acme'], { input: `${MOCK_TOKEN}\n`, env });
+
+    const whoami = await runJson(api, ['auth', 'whoami'], { env });
+    assert.equal(whoami.profile, 'work');
+    assert.equal(whoami.team, 'team_acme');
+    await runJson(api, ['projects'], { env });
+    assert.equal(api.sent('GET').find((r) => r.path === '/v10/projects')!.query.teamId, 'team_acme');
+  });
+
+  test('refuses to store a token the API rejects', async () => {
+    const env = { VERCEL_CONFIG: path.join(tempDir(), 'vercel.json'), VERCEL_TOKEN: undefined };
+    const result = await runCli(api, ['auth', 'login', '--token', 'wrong'], { env });
+    assert.equal(result.status, 1);
+    assert.equal((await runJson(api, ['auth', 'list'], { env })).profiles.length, 0);
+  });
+});
+
+describe('secrets, certificates, usage and aliases', () => {
+  test('lists secrets and refuses a duplicate name', async () => {
+    assert.deepEqual((await runJson(api, ['secrets'])).secrets.map((s: any) => s.name), ['legacy-token']);
+    const duplicate = await runCli(api, ['secret-add', 'legacy-token', 'value']);
+    assert.equal(duplicate.status, 1);
+    assert.match(duplicate.stderr, /Secret legacy-token already exists/);
+  });
+
+  test('adds and removes a secret', async () => {
+    await runJson(api, ['secret-add', 'api-key', 'value']);
+    assert.deepEqual(api.state.secrets.map((s) => s.name), ['legacy-token', 'api-key']);
+    await runJson(api, ['secret-remove', 'api-key', '--yes']);
+    assert.deepEqual(api.state.secrets.map((s) => s.name), ['legacy-token']);
+  });
+
+  test('lists certificates for a domain and gets one', async () => {
+    assert.equal((await runJson(api, ['certs', '--domain', 'www.example.com'])).certs.length, 1);
+    assert.equal((await runJson(api, ['certs', '--domain', 'other.org'])).certs.length, 0);
+    assert.deepEqual((await runJson(api, ['cert', 'cert_1'])).cns, ['example.com', 'www.example.com']);
+  });
+
+  test('masks secret values and certificate keys in a dry run', async () => {
+    const secret = await runJson(api, ['secret-add', 'db-password', 'hunter2', '--dry-run']);
+    assert.deepEqual(secret.requests, [{ method: 'POST', path: '/v3/secrets', body: { name: 'db-password', value: 'hu*****' } }]);
+    assert.equal(api.state.secrets.length, 1);
+
+    const dir = tempDir();
+    const [cert, key] = ['cert.pem', 'key.pem'].map((name) => path.join(dir, name));
+    fs.writeFileSync(cert, SHOP_CERT);
+    fs.writeFileSync(key, SHOP_KEY);
+    const upload = await runCli(api, ['cert-upload', '--cert', cert, '--key', key, '--ca', cert, '--dry-run']);
+    assert.equal(upload.status, 0, upload.stderr);
+    const [request] = JSON.parse(upload.stdout).requests;
+    assert.equal(request.body.cert, SHOP_CERT);
+    assert.doesNotMatch(upload.stdout, /PRIVATE KEY/);
+    assert.equal(request.body.key, '--**********');
+  });
+
+  test('issues a certificate for attached domains only', async () => {
+    const cert = await runJson(api, ['cert-issue', 'example.com', 'www.example.com']);
+    assert.deepEqual(cert.cns, ['example.com', 'www.example.com']);
+    assert.ok(api.state.certs.some((c) => c.id === cert.id));
+
+    const result = await runCli(api, ['cert-issue', 'other.org']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /not attached to a project: other\.org/);
+  });
+
+  test('uploads a custom certificate after checking the key matches', async () => {
+    const dir = tempDir();
+    const [cert, key, ca, wrongKey] = ['cert.pem', 'key.pem', 'ca.pem', 'wrong.pem'].map((name) => path.join(dir, name));
+    fs.writeFileSync(cert, SHOP_CERT);
+    fs.writeFileSync(key, SHOP_KEY);
+    fs.writeFileSync(ca, SHOP_CERT);
+    const other = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+    fs.writeFileSync(wrongKey, other.export({ type: 'pkcs8', format: 'pem' }));
+
+    const mismatch = await runCli(api, ['cert-upload', '--cert', cert, '--key', wrongKey, '--ca', ca]);
+    assert.equal(mismatch.status, 1);
+    assert.match(mismatch.stderr, /private key does not belong to the certificate/);
+    assert.equal(api.sent('PUT').length, 0);
+
+    const uploaded = await runJson(api, ['cert-upload', '--cert', cert, '--key', key, '--ca', ca]);
+    assert.deepEqual(uploaded.cns, ['shop.example.com']);
+    assert.equal(api.sent('PUT')[0].body.key, SHOP_KEY);
+  });
+
+  test('removes a certificate after confirmation', async () => {
+    const refused = await runCli(api, ['cert-remove', 'cert_1']);
+    assert.equal(refused.status, 1);
+    assert.match(refused.stderr, /Remove certificate cert_1 for example\.com, www\.example\.com\?/);
+    assert.equal(api.state.certs.length, 1);
+
+    await runJson(api, ['cert-remove', 'cert_1', '--yes']);
+    assert.equal(api.state.certs.length, 0);
+  });
+
+  test('certs-expiring reports certificates near expiry and domains without one', async () => {
+    const day = 24 * 3600 * 1000;
+    api.state.certs[0].expiresAt = Date.now() + 60 * day;
+    const healthy = await runCli(api, ['certs-expiring']);
+    assert.equal(healthy.status, 0);
+    assert.equal(JSON.parse(healthy.stdout).ok, true);
+
+    api.state.certs[0].expiresAt = Date.now() + 10.5 * day;
+    api.state.projectDomains.prj_api.push({ name: 'api.example.com', projectId: 'prj_api', verified: true });
+    const result = await runCli(api, ['certs-expiring', '--days', '30']);
+    assert.equal(result.status, 1);
+    const { ok, expiry } = JSON.parse(result.stdout);
+    assert.equal(ok, false);
+    assert.deepEqual(
+      expiry.map((row: any) => [row.status, row.cert, row.domains, row.daysLeft]),
+      [
+        ['missing', null, ['api.example.com'], null],
+        ['expiring', 'cert_1', ['example.com', 'www.example.com'], 10],
+      ],
+    );
+    assert.match(result.stderr, /api\.example\.com \(api\) has no valid certificate/);
+    assert.match(result.stderr, /cert_1 \(example\.com, www\.example\.com\) expires in 10 day\(s\)/);
+  });
+
+  test('shows usage totals for the billing period', async () => {
+    const usage = await runJson(api, ['usage']);
+    assert.deepEqual(usage.totals, { bandwidth: 1024 ** 3, functionInvocations: 12000, buildMinutes: 42 });
+    assert.deepEqual(usage.period, { from: '2024-05-02T12:00:00.000Z', to: '2024-06-01T12:00:00.000Z' });
+  });
+
+  test('groups usage in a date range by project', async () => {
+    const usage = await runJson(api, ['usage', '--from', '2024-05-31', '--to', '2024-06-01T23:59:59Z', '--group-by', 'project']);
+    assert.equal(api.sent('GET')[0].query.from, '2024-05-31T00:00:00.000Z');
+    assert.deepEqual(usage.usage, [
+      { project: 'api', bandwidth: 64 * 1024 ** 2, functionInvocations: 1500, buildMinutes: 7.5 },
+      { project: 'web', bandwidth: 320 * 1024 ** 2, functionInvocations: 4500, buildMinutes: 20 },
+    ]);
+    assert.equal(usage.totals.buildMinutes, 27.5);
+  });
+
+  test('exports daily usage as CSV with a totals row', async () => {
+    const result = await runCli(api, ['usage', '--group-by', 'day', '--output', 'csv']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(
+      result.stdout,
+      [
+        'day,bandwidth,functionInvocations,buildMinutes',
+        '2024-05-30,671088640,6000,14.5',
+        '2024-05-31,335544320,5000,15.5',
+        '2024-06-01,67108864,1000,12',
+        'total,1073741824,12000,42',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('fails when usage crosses a budget limit', async () => {
+    const budget = path.join(tempDir(), 'budget.yaml');
+    fs.writeFileSync(budget, 'total:\n  bandwidth: 2GB\nprojects:\n  web:\n    buildMinutes: 25\n  prj_api:\n    functionInvocations: 5000\n');
+    const result = await runCli(api, ['usage', '--budget', budget]);
+    assert.equal(result.status, 1);
+    assert.equal(result.stderr, 'Over budget: buildMinutes for web is 30, limit 25\n');
+    assert.deepEqual(JSON.parse(result.stdout).budget, { ok: false, breaches: [{ scope: 'web', metric: 'buildMinutes', limit: 25, used: 30 }] });
+
+    fs.writeFileSync(budget, 'total:\n  storage: 1GB\n');
+    assert.match((await runCli(api, ['usage', '--budget', budget])).stderr, /unknown metric total\.storage/);
+  });
+
+  test('lists the aliases of a project', async () => {
+    const { aliases } = await runJson(api, ['aliases', '--project', 'web', '--output', 'json']);
+    assert.deepEqual(aliases.map((a: any) => a.uid), ['al_3', 'al_1', 'al_2']);
+  });
+});
@@ -0,0 +1,276 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { NOW } from './fixtures';
+import { runCli, runJson, tempDir } from './harness';
+import { MockVercelApi } from './mock-server';
+import { DeploymentState } from '../types';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+const production = () => api.state.projects.find((p) => p.name === 'web')!.targets!.production!.id;
+const ids = (rows: any[]) => rows.map((row) => row.id);
+
+// Adds a preview deployment of web on a branch, created hoursAgo before the fixtures' NOW
+const addPreview = (id: string, branch: string, hoursAgo: number, readyState: DeploymentState = 'READY') =>
+  api.state.deployments.push({
+    id,
+    name: 'web',
+    url: `web-${id}.vercel.app`,
+    readyState,
+    target: null,
+    projectId: 'prj_web',
+    createdAt: NOW - hoursAgo * 3600000,
+    meta: { githubCommitRef: branch },
+  });
+const aliasTargets = () => api.state.aliases.filter((a) => a.alias.endsWith('example.com')).map((a) => a.deploymentId);
+
+describe('deployments', () => {
+  test('lists deployments of a project page by page', async () => {
+    const first = await runJson(api, ['deployments', '--project', 'web', '--limit', '2']);
+    assert.deepEqual(first.deployments.map((d: any) => d.uid), ['dpl_web3', 'dpl_web2']);
+    assert.ok(first.pagination.next);
+
+    const rest = await runJson(api, ['deployments', '--project', 'web', '--until', String(first.pagination.next)]);
+    assert.deepEqual(rest.deployments.map((d: any) => d.uid), ['dpl_web1']);
+  });
+
+  for (const [ref, id] of [
+    ['dpl_web1', 'dpl_web1'],
+    ['https://web-1abc.vercel.app/about', 'dpl_web1'],
+    ['www.example.com', 'dpl_web2'],
+    ['web@production', 'dpl_web2'],
+    ['web@latest', 'dpl_web3'],
+  ]) {
+    test(`finds ${ref}`, async () => {
+      assert.equal((await runJson(api, ['deployment', ref])).id, id);
+    });
+  }
+
+  test('reports a host that is neither a deployment nor an alias', async () => {
+    const result = await runCli(api, ['deployment', 'unknown.example.net']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /No deployment or alias found for unknown\.example\.net/);
+  });
+
+  test('lists the files of a deployment under a path', async () => {
+    const { files } = await runJson(api, ['deployment-files', 'web@production', '--path', 'src/pages/']);
+    assert.deepEqual(files.map((f: any) => f.path), ['src/pages', 'src/pages/index.js', 'src/pages/pricing.js']);
+  });
+
+  test('downloads deployment files and asks before overwriting them', async () => {
+    const dir = tempDir();
+    const result = await runCli(api, ['deployment-files', 'web@production', '--download', dir]);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /Skipped 1 entries without downloadable contents: api\/hello/);
+    assert.equal(fs.readFileSync(path.join(dir, 'src/pages/pricing.js'), 'utf8'), 'export default () => "Pricing";\n');
+
+    const again = await runCli(api, ['deployment-files', 'web@production', '--download', dir]);
+    assert.equal(again.status, 1);
+    assert.match(again.stderr, /Overwrite 3 file\(s\)/);
+  });
+
+  test('lists functions with their runtime, regions and memory', async () => {
+    const { functions } = await runJson(api, ['deployment-functions', 'dpl_web2']);
+    assert.deepEqual(functions, [
+      { path: 'api/hello', type: 'serverless', runtime: 'nodejs20.x', regions: ['iad1'], memory: 1024, maxDuration: 10, size: 2048 },
+      { path: 'api/legacy', type: 'serverless', runtime: '@vercel/next', regions: ['iad1', 'fra1'], memory: null, maxDuration: null, size: null },
+      { path: 'middleware', type: 'edge', runtime: 'edge', regions: ['global'], memory: null, maxDuration: null, size: 512 },
+    ]);
+  });
+
+  test('compares the files and metadata of two deployments', async () => {
+    const { differences } = await runJson(api, ['deployment-diff', 'dpl_web1', 'web@production']);
+    assert.deepEqual(differences, [
+      { kind: 'git', name: 'sha', change: 'changed', from: '1111111aaaaaaa', to: '2222222bbbbbbb' },
+      { kind: 'config', name: 'regions', change: 'changed', from: 'iad1', to: 'iad1,fra1' },
+      { kind: 'config', name: 'buildCommand', change: 'added', to: 'next build' },
+      { kind: 'env', name: 'STRIPE_KEY', change: 'added' },
+      { kind: 'file', name: 'src/pages/about.js', change: 'removed', from: 'f_about' },
+      { kind: 'file', name: 'src/pages/index.js', change: 'changed', from: 'f_index1', to: 'f_index2' },
+      { kind: 'file', name: 'src/pages/pricing.js', change: 'added', to: 'f_pricing' },
+    ]);
+  });
+
+  test('deploys a git ref and waits for it', async () => {
+    const result = await runCli(api, ['deploy', 'web', '--ref', 'feature', '--wait', '--interval', '10ms']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /BUILDING -> READY/);
+    const deployment = JSON.parse(result.stdout);
+    assert.equal(deployment.readyState, 'READY');
+    assert.deepEqual(api.sent('POST')[0].body.gitSource, { type: 'github', ref: 'feature', repoId: 101 });
+  });
+
+  test('deploys a commit of the production branch', async () => {
+    const deployment = await runJson(api, ['deploy', 'web', '--sha', '3333333ccccccc']);
+    assert.deepEqual(api.sent('POST')[0].body.gitSource, { type: 'github', ref: 'main', sha: '3333333ccccccc', repoId: 101 });
+    assert.equal(deployment.meta.githubCommitSha, '3333333ccccccc');
+  });
+
+  test('identifies GitLab and Bitbucket repositories the way the API expects', async () => {
+    const project = await runJson(api, ['project-link', 'api', '--repo', 'acme/api', '--git-provider', 'gitlab']);
+    await runJson(api, ['deploy', 'api', '--ref', 'develop']);
+    assert.deepEqual(api.sent('POST')[1].body.gitSource, { type: 'gitlab', ref: 'develop', projectId: project.link.repoId });
+
+    await runJson(api, ['project-link', 'api', '--repo', 'https://bitbucket.org/acme/api/src/main/']);
+    await runJson(api, ['deploy', 'api', '--ref', 'develop']);
+    assert.deepEqual(api.sent('POST')[3].body.gitSource, { type: 'bitbucket', ref: 'develop', owner: 'acme', slug: 'api' });
+  });
+
+  test('uploads only the files the API does not have', async () => {
+    const dir = tempDir();
+    fs.writeFileSync(path.join(dir, 'index.html'), '<h1>Hello</h1>');
+    fs.writeFileSync(path.join(dir, 'about.html'), '<h1>About</h1>');
+    fs.writeFileSync(path.join(dir, '.vercelignore'), 'about.html\n');
+
+    await runJson(api, ['deploy', 'web', '--dir', dir]);
+    assert.equal(api.sent('POST').filter((r) => r.path === '/v2/files').length, 1);
+    const files = api.sent('POST').find((r) => r.path === '/v13/deployments' && r.body.files)!.body.files;
+    assert.deepEqual(files.map((f: any) => f.file), ['index.html']);
+
+    api.requests.length = 0;
+    await runJson(api, ['deploy', 'web', '--dir', dir]);
+    assert.equal(api.sent('POST').filter((r) => r.path === '/v2/files').length, 0);
+  });
+
+  test('redeploys into the same project', async () => {
+    const deployment = await runJson(api, ['redeploy', 'web@production']);
+    assert.equal(deployment.projectId, 'prj_web');
+    assert.equal(deployment.target, 'production');
+    assert.equal(api.sent('POST')[0].path, '/v13/deployments/dpl_web2/redeploy');
+  });
+
+  test('promotes a preview deployment', async () => {
+    const result = await runCli(api, ['promote', 'web-git-feature-acme.vercel.app', '--yes']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(production(), 'dpl_web3');
+    assert.deepEqual(aliasTargets(), ['dpl_web3', 'dpl_web3']);
+  });
+
+  test('rolls production back and waits for the aliases', async () => {
+    const result = await runJson(api, ['rollback', 'web', '--yes']);
+    assert.equal(result.after.id, 'dpl_web1');
+    assert.equal(result.aliasesMoved, true);
+    assert.equal(production(), 'dpl_web1');
+    assert.deepEqual(aliasTargets(), ['dpl_web1', 'dpl_web1']);
+  });
+
+  test('lists production history with commits and the current deployment', async () => {
+    const { history } = await runJson(api, ['history', 'web']);
+    assert.deepEqual(
+      history.map((row: any) => [row.id, row.current, row.sha, row.message]),
+      [
+        ['dpl_web2', true, '2222222bbbbbbb', 'Add pricing page'],
+        ['dpl_web1', false, '1111111aaaaaaa', 'Initial release'],
+      ],
+    );
+    assert.equal(api.sent('GET').find((r) => r.path === '/v6/deployments')!.query.target, 'production');
+  });
+
+  test('rolls back from a production that was already rolled back', async () => {
+    // Production was rolled back to dpl_web2 past a dozen newer production deployments
+    for (let i = 0; i < 12; i++) {
+      api.state.deployments.push({ id: `dpl_new${i}`, name: 'web', url: `web-new${i}.vercel.app`, readyState: 'READY', target: 'production', projectId: 'prj_web', createdAt: NOW - i * 60000 });
+    }
+    const result = await runJson(api, ['rollback', 'web', '--yes']);
+    assert.equal(result.after.id, 'dpl_web1');
+    assert.equal(production(), 'dpl_web1');
+
+    const none = await runCli(api, ['rollback', 'web', '--yes']);
+    assert.equal(none.status, 1);
+    assert.match(none.stderr, /No READY production deployment 1 step\(s\) before the current one/);
+    assert.equal(production(), 'dpl_web1');
+  });
+
+  test('cancels a running deployment but not a finished one', async () => {
+    const finished = await runCli(api, ['cancel', 'dpl_web2']);
+    assert.equal(finished.status, 1);
+    assert.match(finished.stderr, /already READY/);
+
+    const { id } = await runJson(api, ['deploy', 'web']);
+    assert.equal((await runJson(api, ['cancel', id])).readyState, 'CANCELED');
+  });
+
+  test('asks before deleting a deployment', async () => {
+    assert.equal((await runCli(api, ['delete-deployment', 'dpl_web1'])).status, 1);
+    await runJson(api, ['delete-deployment', 'dpl_web1', '--yes']);
+    assert.ok(!api.state.deployments.some((d) => d.id === 'dpl_web1'));
+  });
+
+  test('prints build logs as text', async () => {
+    const result = await runCli(api, ['logs', 'web@production', '--format', 'text']);
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /command\s+npm run build\n.*stdout\s+Compiled successfully/);
+  });
+
+  test('follows the logs of a failed build and exits 1', async () => {
+    const result = await runCli(api, ['logs', 'dpl_api1', '--follow', '--format', 'text']);
+    assert.equal(result.status, 1);
+    assert.match(result.stdout, /Build failed/);
+  });
+});
+
+describe('deployments-prune', () => {
+  test('lists what the policy would delete without --yes', async () => {
+    for (const [i, hours] of [10, 11, 12, 13].entries()) addPreview(`dpl_feature${i}`, 'feature', hours);
+    addPreview('dpl_fix0', 'fix', 20);
+    addPreview('dpl_fix1', 'fix', 21);
+
+    const result = await runCli(api, ['deployments-prune', 'web', '--keep', '2']);
+    assert.equal(result.status, 0, result.stderr);
+    const plan = JSON.parse(result.stdout);
+    assert.deepEqual(ids(plan.prune), ['dpl_feature1', 'dpl_feature2', 'dpl_feature3']);
+    assert.equal(plan.prune[0].reason, 'beyond the newest 2 of feature');
+    assert.match(result.stderr, /3 deployment\(s\) would be deleted, 6 kept; pass --yes/);
+    assert.equal(api.sent('DELETE').length, 0);
+  });
+
+  test('deletes failed and canceled previews older than a cutoff', async () => {
+    addPreview('dpl_error_new', 'fix', 1, 'ERROR');
+    addPreview('dpl_error_old', 'fix', 30, 'ERROR');
+    addPreview('dpl_canceled_old', 'fix', 31, 'CANCELED');
+    addPreview('dpl_ready_old', 'fix', 32);
+
+    const cutoff = new Date(NOW - 24 * 3600000).toISOString();
+    const { prune } = await runJson(api, ['deployments-prune', 'web', '--state', 'ERROR,CANCELED', '--older-than', cutoff, '--yes']);
+    assert.deepEqual(prune.map((row: any) => [row.id, row.result]), [['dpl_error_old', 'deleted'], ['dpl_canceled_old', 'deleted']]);
+    assert.deepEqual(api.state.deployments.filter((d) => d.projectId === 'prj_web').map((d) => d.id), [
+      'dpl_web1',
+      'dpl_web2',
+      'dpl_web3',
+      'dpl_error_new',
+      'dpl_ready_old',
+    ]);
+  });
+
+  test('never deletes the production deployment or aliased ones', async () => {
+    const { prune } = await runJson(api, ['deployments-prune', 'web', '--keep', '0', '--include-production', '--yes']);
+    assert.deepEqual(ids(prune), ['dpl_web1']);
+    assert.equal(production(), 'dpl_web2');
+    assert.ok(api.state.deployments.some((d) => d.id === 'dpl_web3'));
+  });
+
+  test('reads every page and deletes with bounded concurrency', async () => {
+    await api.close();
+    api = await MockVercelApi.start({ pageSize: 3 });
+    for (let i = 0; i < 8; i++) addPreview(`dpl_old${i}`, 'old', 100 + i);
+    api.fail({ method: 'DELETE', path: /^\/v13\/deployments\//, delay: 100, times: Infinity });
+
+    const { prune } = await runJson(api, ['deployments-prune', 'web', '--keep', '0', '--concurrency', '2', '--yes']);
+    assert.equal(prune.length, 8);
+    assert.ok(prune.every((row: any) => row.result === 'deleted'));
+    assert.ok(api.sent('GET').filter((r) => r.path === '/v6/deployments').length > 1);
+    assert.equal(api.peakConcurrency, 2);
+  });
+
+  test('needs a retention rule', async () => {
+    const result = await runCli(api, ['deployments-prune', 'web']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Pass at least one of --keep, --older-than and --state/);
+  });
+});
@@ -0,0 +1,93 @@
+import * as dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { DnsRecord } from '../types';
+
+// Answers A, CNAME and TXT queries over UDP from zones of records named relative to their apex, the
+// way the mock API keeps them, so domain-setup can check DNS without the network. Pass `server` to
+// the CLI's --dns-server.
+
+const TYPES: Record<number, string> = { 1: 'A', 5: 'CNAME', 16: 'TXT' };
+const NOERROR = 0;
+const SERVFAIL = 2;
+const NXDOMAIN = 3;
+
+function encodeName(name: string): Buffer {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  return Buffer.concat([...labels.map((label) => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])), Buffer.from([0])]);
+}
+
+function encodeData(type: string, value: string): Buffer {
+  if (type === 'A') return Buffer.from(value.split('.').map(Number));
+  if (type === 'CNAME') return encodeName(value);
+  const chunks = value.match(/[\s\S]{1,255}/g) || [''];
+  return Buffer.concat(chunks.map((chunk) => Buffer.concat([Buffer.from([chunk.length]), Buffer.from(chunk)])));
+}
+
+export class MockDnsServer {
+  server = '';
+  // Names answered with SERVFAIL, as a broken or unreachable nameserver would
+  readonly failing = new Set<string>();
+  private socket = dgram.createSocket('udp4');
+
+  constructor(private zones: () => Record<string, DnsRecord[]>) {
+    this.socket.on('message', (message, remote) => {
+      const reply = this.answer(message);
+      if (reply) this.socket.send(reply, remote.port, remote.address);
+    });
+  }
+
+  static async start(zones: () => Record<string, DnsRecord[]>): Promise<MockDnsServer> {
+    const dns = new MockDnsServer(zones);
+    await new Promise<void>((resolve) => dns.socket.bind(0, '127.0.0.1', resolve));
+    dns.server = `127.0.0.1:${(dns.socket.address() as AddressInfo).port}`;
+    return dns;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+
+  private records(name: string): DnsRecord[] {
+    const fqdn = name.toLowerCase();
+    return Object.entries(this.zones()).flatMap(([zone, records]) =>
+      records.filter((record) => (record.name ? `${record.name}.${zone}` : zone).toLowerCase() === fqdn),
+    );
+  }
+
+  private answer(query: Buffer): Buffer | undefined {
+    if (query.length < 12) return undefined;
+    const labels: string[] = [];
+    let offset = 12;
+    while (offset < query.length && query[offset] !== 0) {
+      labels.push(query.toString('utf8', offset + 1, offset + 1 + query[offset]));
+      offset += query[offset] + 1;
+    }
+    const questionEnd = offset + 5;
+    if (questionEnd > query.length) return undefined;
+    const name = labels.join('.');
+    const type = TYPES[query.readUInt16BE(offset + 1)];
+
+    const records = this.records(name);
+    const answers = records.filter((record) => record.type === type);
+    const rcode = this.failing.has(name) ? SERVFAIL : records.length ? NOERROR : NXDOMAIN;
+
+    const header = Buffer.alloc(12);
+    query.copy(header, 0, 0, 2);
+    // QR and AA set, RD copied from the query, RA set
+    header.writeUInt16BE(0x8400 | (query.readUInt16BE(2) & 0x0100) | 0x0080 | rcode, 2);
+    header.writeUInt16BE(1, 4);
+    header.writeUInt16BE(rcode === NOERROR ? answers.length : 0, 6);
+    const body = (rcode === NOERROR ? answers : []).map((record) => {
+      const data = encodeData(record.type, record.value);
+      const fixed = Buffer.alloc(12);
+      // A pointer to the name in the question
+      fixed.writeUInt16BE(0xc00c, 0);
+      fixed.writeUInt16BE(query.readUInt16BE(offset + 1), 2);
+      fixed.writeUInt16BE(1, 4);
+      fixed.writeUInt32BE(record.ttl ?? 60, 6);
+      fixed.writeUInt16BE(data.length, 10);
+      return Buffer.concat([fixed, data]);
+    });
+    return Buffer.concat([header, query.subarray(12, questionEnd), ...body]);
+  }
+}
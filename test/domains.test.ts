@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { checkRecords, DnsResolver, requiredRecords } from '../dnscheck';
+import { MockDnsServer } from './dns-server';
+import { runCli, runJson, tempDir } from './harness';
+import { MockVercelApi } from './mock-server';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+const zone = () => api.state.records['example.com'];
+
+describe('domains', () => {
+  test('lists account and project domains', async () => {
+    assert.deepEqual((await runJson(api, ['domains'])).domains.map((d: any) => d.name), ['other.org', 'example.com']);
+    assert.deepEqual((await runJson(api, ['domains', '--project', 'web'])).domains.map((d: any) => d.name), ['example.com']);
+  });
+
+  test('adds a domain that needs a TXT challenge', async () => {
+    const domain = await runJson(api, ['domain-add', 'api', 'api.acme.dev']);
+    assert.equal(domain.verified, false);
+    assert.equal(domain.verification[0].domain, '_vercel.acme.dev');
+  });
+
+  test('reports a domain used by another project', async () => {
+    const result = await runCli(api, ['domain-add', 'api', 'www.example.com']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /already in use/);
+  });
+
+  test('asks before removing a domain', async () => {
+    assert.equal((await runCli(api, ['domain-remove', 'web', 'www.example.com'])).status, 1);
+    await runJson(api, ['domain-remove', 'web', 'www.example.com', '--yes']);
+    assert.deepEqual(api.state.projectDomains.prj_web.map((d) => d.name), ['example.com']);
+  });
+
+  test('verifies and checks a domain', async () => {
+    assert.equal((await runJson(api, ['domain-verify', 'example.com'])).verified, true);
+    assert.equal((await runJson(api, ['domain-check', 'example.com'])).domain.serviceType, 'zeit.world');
+  });
+});
+
+describe('domain setup', () => {
+  const failure = (code: string) => Object.assign(new Error(code), { code });
+  const resolver = (answers: Record<string, string[] | Error>): DnsResolver => {
+    const answer = async (name: string) => {
+      const value = answers[name] ?? failure('ENOTFOUND');
+      if (value instanceof Error) throw value;
+      return value;
+    };
+    return { resolve4: answer, resolveCname: answer, resolveTxt: async (name) => (await answer(name)).map((value) => [value]) };
+  };
+
+  test('requires an A record for an apex and a CNAME and TXT challenge for a subdomain', () => {
+    assert.deepEqual(
+      requiredRecords({ name: 'acme.dev', apexName: 'acme.dev' }, { misconfigured: true }).map((r) => [r.type, r.name, r.value]),
+      [['A', 'acme.dev', '76.76.21.21']],
+    );
+    const domain = { name: 'app.acme.dev', apexName: 'acme.dev', verification: [{ type: 'TXT', domain: '_vercel.acme.dev', value: 'vc-domain-verify=1' }] };
+    const config = { misconfigured: true, recommendedCNAME: [{ rank: 1, value: 'abc.vercel-dns-017.com.' }] };
+    assert.deepEqual(
+      requiredRecords(domain, config).map((r) => [r.type, r.name, r.value, r.purpose]),
+      [
+        ['CNAME', 'app.acme.dev', 'abc.vercel-dns-017.com', 'routing'],
+        ['TXT', '_vercel.acme.dev', 'vc-domain-verify=1', 'verification'],
+      ],
+    );
+  });
+
+  test('counts names a nameserver fails on as not resolved yet', async () => {
+    const domain = { name: 'app.acme.dev', apexName: 'acme.dev', verification: [{ type: 'TXT', domain: '_vercel.acme.dev', value: 'vc-domain-verify=1' }] };
+    const records = requiredRecords(domain, { misconfigured: true });
+    const checks = await checkRecords(records, resolver({ 'app.acme.dev': ['CNAME.Vercel-DNS.com.'], '_vercel.acme.dev': failure('ESERVFAIL') }));
+    assert.deepEqual(checks.map((check) => [check.type, check.ok, check.found]), [['CNAME', true, ['CNAME.Vercel-DNS.com.']], ['TXT', false, []]]);
+
+    for (const code of ['ETIMEOUT', 'ECONNREFUSED', 'EREFUSED']) {
+      assert.equal((await checkRecords(records, resolver({ 'app.acme.dev': failure(code) })))[0].ok, false);
+    }
+    await assert.rejects(checkRecords(records, resolver({ 'app.acme.dev': failure('EBADNAME') })), /EBADNAME/);
+  });
+
+  test('creates missing records on Vercel DNS and reports the domain configured', async () => {
+    const dns = await MockDnsServer.start(() => api.state.records);
+    try {
+      const result = await runCli(api, ['domain-setup', 'api', 'shop.example.com', '--dns-server', dns.server, '--yes', '--interval', '100ms']);
+      assert.equal(result.status, 0, result.stderr);
+      assert.match(result.stderr, /Added shop\.example\.com to api/);
+      const output = JSON.parse(result.stdout);
+      assert.deepEqual(output.created, [{ type: 'CNAME', name: 'shop', value: 'cname.vercel-dns.com' }]);
+      assert.deepEqual([output.verified, output.configured], [true, true]);
+      // Checked again after creating, through the nameserver
+      assert.ok(output.checks.every((check: any) => check.ok));
+      assert.ok(zone().some((r) => r.name === 'shop' && r.type === 'CNAME'));
+    } finally {
+      await dns.close();
+    }
+  });
+
+  test('lists the records to create elsewhere for a zone not on Vercel DNS', async () => {
+    const dns = await MockDnsServer.start(() => api.state.records);
+    try {
+      const result = await runCli(api, ['domain-setup', 'api', 'app.other.org', '--dns-server', dns.server, '--yes', '--timeout', '0']);
+      assert.equal(result.status, 1);
+      assert.match(result.stderr, /other\.org does not use Vercel DNS; create these records with your DNS provider:\n {2}CNAME app\.other\.org cname\.vercel-dns\.com/);
+      assert.match(result.stderr, /app\.other\.org is verified and not configured yet/);
+      assert.equal(api.sent('POST').filter((r) => r.path.includes('/records')).length, 0);
+    } finally {
+      await dns.close();
+    }
+  });
+
+  test('stops waiting when verification fails for another reason than the challenge', async () => {
+    const dns = await MockDnsServer.start(() => api.state.records);
+    try {
+      api.fail({ method: 'POST', path: /\/verify$/, status: 403, body: { error: { code: 'forbidden', message: 'Not authorized' } }, times: Infinity });
+      const result = await runCli(api, ['domain-setup', 'api', 'app.acme.dev', '--dns-server', dns.server, '--yes', '--interval', '100ms', '--timeout', '5s']);
+      assert.equal(result.status, 1);
+      assert.match(result.stderr, /Not authorized/);
+      assert.equal(api.sent('POST').filter((r) => r.path.endsWith('/verify')).length, 1);
+    } finally {
+      await dns.close();
+    }
+  });
+
+  test('does not wait when records it may not create are missing', async () => {
+    const dns = await MockDnsServer.start(() => api.state.records);
+    try {
+      const result = await runCli(api, ['domain-setup', 'api', 'shop.example.com', '--dns-server', dns.server]);
+      assert.equal(result.status, 1);
+      assert.match(result.stderr, /missing CNAME shop\.example\.com cname\.vercel-dns\.com/);
+      assert.match(result.stderr, /Records not created in example\.com; pass --yes to create them/);
+      assert.doesNotMatch(result.stderr, /Waiting up to/);
+      assert.equal(api.sent('POST').filter((r) => r.path.includes('/records')).length, 0);
+    } finally {
+      await dns.close();
+    }
+  });
+});
+
+describe('dns', () => {
+  test('lists records', async () => {
+    const { records } = await runJson(api, ['dns-list', 'example.com']);
+    assert.deepEqual(records.map((r: any) => r.id), ['rec_caa', 'rec_mx', 'rec_www', 'rec_a']);
+  });
+
+  test('reports an unknown zone', async () => {
+    const result = await runCli(api, ['dns-list', 'nope.dev']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Domain not found/);
+  });
+
+  test('adds MX and SRV records from zone file syntax', async () => {
+    await runJson(api, ['dns-add', 'example.com', '--type', 'MX', '--name', 'eu', '--value', '20 mx.example.net']);
+    await runJson(api, ['dns-add', 'example.com', '--type', 'SRV', '--name', '_sip._tcp', '--value', '10 5 5060 sip.example.com']);
+    const [mx, srv] = api.sent('POST').map((r) => r.body);
+    assert.deepEqual(mx, { type: 'MX', name: 'eu', value: 'mx.example.net', mxPriority: 20, ttl: 3600 });
+    assert.deepEqual(srv.srv, { priority: 10, weight: 5, port: 5060, target: 'sip.example.com' });
+    assert.ok(zone().some((r) => r.type === 'SRV' && r.value === '5 5060 sip.example.com' && r.priority === 10));
+  });
+
+  test('rejects an MX record without a priority', async () => {
+    const result = await runCli(api, ['dns-add', 'example.com', '--type', 'MX', '--name', '@', '--value', 'mail.example.com']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /--help/);
+    assert.equal(api.sent('POST').length, 0);
+  });
+
+  test('removes a record after confirmation', async () => {
+    await runJson(api, ['dns-remove', 'example.com', 'rec_www', '--yes']);
+    assert.ok(!zone().some((r) => r.id === 'rec_www'));
+    const missing = await runCli(api, ['dns-remove', 'example.com', 'rec_nope', '--yes']);
+    assert.equal(missing.status, 1);
+  });
+
+  test('exports a zone and imports additions to it idempotently', async () => {
+    const file = path.join(tempDir(), 'example.com.zone');
+    await runJson(api, ['dns-export', 'example.com', '--file', file]);
+    const text = fs.readFileSync(file, 'utf8');
+    assert.match(text, /^\$ORIGIN example\.com\.$/m);
+    assert.match(text, /^@\s+3600\s+IN\s+MX\s+10 mail\.example\.com\.$/m);
+
+    fs.writeFileSync(file, `${text}\nnew 300 IN TXT "hello"\n`);
+    const first = await runJson(api, ['dns-import', 'example.com', file]);
+    assert.deepEqual(
+      first.imported.filter((row: any) => row.action === 'create').map((row: any) => row.name),
+      ['new.example.com'],
+    );
+    const second = await runJson(api, ['dns-import', 'example.com', file]);
+    assert.ok(second.imported.every((row: any) => row.action === 'skip'));
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { runCli, runJson, tempDir } from './harness';
+import { MOCK_TOKEN, MockVercelApi } from './mock-server';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+const envs = () => api.state.envs.prj_web;
+const find = (key: string) => envs().filter((env) => env.key === key);
+
+describe('env', () => {
+  test('lists the variables of one target', async () => {
+    const { envs: listed } = await runJson(api, ['env-list', 'web', '--env', 'development']);
+    assert.deepEqual(listed.map((env: any) => env.id), ['env_3']);
+  });
+
+  test('adds a variable from stdin and overwrites it on a second add', async () => {
+    await runJson(api, ['env-add', 'web', 'NEW_KEY', '--env', 'preview'], { input: 'first\n' });
+    await runJson(api, ['env-add', 'web', 'NEW_KEY', 'second', '--env', 'preview']);
+    assert.deepEqual(find('NEW_KEY').map((env) => env.value), ['second']);
+    assert.equal(api.sent('POST')[0].body.value, 'first');
+    assert.equal(api.sent('POST')[0].query.upsert, 'true');
+  });
+
+  test('asks which variable to update when the key has several targets', async () => {
+    const ambiguous = await runCli(api, ['env-update', 'web', 'DATABASE_URL', 'postgres://db/new']);
+    assert.equal(ambiguous.status, 1);
+    assert.match(ambiguous.stderr, /pass --env to pick one/);
+
+    await runJson(api, ['env-update', 'web', 'DATABASE_URL', 'postgres://db/new', '--env', 'preview']);
+    assert.equal(envs().find((env) => env.id === 'env_3')!.value, 'postgres://db/new');
+  });
+
+  test('takes the key and value alone when the profile has a default project', async () => {
+    const env = { VERCEL_CONFIG: path.join(tempDir(), 'vercel.json'), VERCEL_TOKEN: undefined };
+    await runJson(api, ['auth', 'login', 'work', '--project', 'web'], { input: `${MOCK_TOKEN}\n`, env });
+
+    await runJson(api, ['env-add', 'NEW_KEY', 'first', '--env', 'preview'], { env });
+    assert.deepEqual(find('NEW_KEY').map((variable) => [variable.value, variable.target]), [['first', ['preview']]]);
+    await runJson(api, ['env-update', 'NEW_KEY', 'second'], { env });
+    assert.deepEqual(find('NEW_KEY').map((variable) => variable.value), ['second']);
+
+    await runJson(api, ['env-add', 'PIPED_KEY', '--env', 'preview'], { input: 'piped\n', env });
+    assert.deepEqual(find('PIPED_KEY').map((variable) => variable.value), ['piped']);
+    await runJson(api, ['env-add', 'api', 'PIPED_KEY', '--value-file', '-', '--env', 'preview'], { input: 'other\n', env });
+    assert.deepEqual(api.state.envs.prj_api.filter((variable) => variable.key === 'PIPED_KEY').map((variable) => variable.value), ['other']);
+  });
+
+  test('removes a variable from one target and keeps the others', async () => {
+    await runJson(api, ['env-remove', 'web', 'API_URL', '--env', 'preview', '--yes']);
+    assert.deepEqual(find('API_URL')[0].target, ['production']);
+    await runJson(api, ['env-remove', 'web', 'API_URL', '--env', 'production', '--yes']);
+    assert.deepEqual(find('API_URL'), []);
+  });
+
+  test('pulls decrypted values and skips sensitive ones', async () => {
+    const file = path.join(tempDir(), '.env.production');
+    const result = await runCli(api, ['env-pull', 'web', '--file', file, '--env', 'production']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /Skipped 1 variable\(s\) whose values cannot be read: STRIPE_KEY/);
+    const content = fs.readFileSync(file, 'utf8');
+    assert.match(content, /^DATABASE_URL="postgres:\/\/db\/prod"$/m);
+    assert.match(content, /^API_URL="https:\/\/api\.example\.com"$/m);
+  });
+
+  test('pushes a file, previewing with --dry-run first', async () => {
+    const file = path.join(tempDir(), '.env');
+    fs.writeFileSync(file, 'API_URL=https://api.example.com\nDATABASE_URL=postgres://db/dev2\nFEATURE=on\n');
+
+    const preview = await runJson(api, ['env-push', 'web', '--file', file, '--env', 'development', '--dry-run']);
+    assert.equal(preview.dryRun, true);
+    assert.equal(find('FEATURE').length, 0);
+
+    const pushed = await runJson(api, ['env-push', 'web', '--file', file, '--env', 'development']);
+    assert.deepEqual(pushed.created.sort(), ['API_URL', 'FEATURE']);
+    assert.deepEqual(pushed.updated, ['DATABASE_URL']);
+
+    const diff = await runJson(api, ['env-diff', 'web', '--file', file, '--env', 'development']);
+    assert.ok(diff.diff.every((row: any) => row.status === 'unchanged'));
+  });
+});
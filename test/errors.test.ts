@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { runCli, runJson } from './harness';
+import { MockVercelApi } from './mock-server';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+const attempts = (path: string) => api.requests.filter((r) => r.path === path).length;
+
+describe('API errors', () => {
+  test('shows the message from the error body', async () => {
+    api.fail({ path: '/v2/user', status: 400, body: { error: { code: 'bad_request', message: 'Something is off' } } });
+    const result = await runCli(api, ['user']);
+    assert.equal(result.status, 1);
+    assert.equal(result.stderr, 'API Error: Something is off\n');
+    assert.equal(result.stdout, '');
+  });
+
+  test('falls back to the status line without an error body', async () => {
+    api.fail({ path: '/v2/user', status: 500 });
+    const result = await runCli(api, ['user', '--retries', '0']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /HTTP 500: Internal Server Error/);
+  });
+
+  test('rejects a bad token', async () => {
+    const result = await runCli(api, ['user'], { env: { VERCEL_TOKEN: 'wrong' } });
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /API Error: Not authorized/);
+  });
+
+  test('fails without a token', async () => {
+    const result = await runCli(api, ['user'], { env: { VERCEL_TOKEN: undefined } });
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /VERCEL_TOKEN not found/);
+    assert.equal(api.requests.length, 0);
+  });
+});
+
+describe('retries', () => {
+  test('retries a failed read and succeeds', async () => {
+    api.fail({ path: '/v2/user', status: 503, headers: { 'Retry-After': '0' }, times: 2 });
+    const result = await runCli(api, ['user']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(JSON.parse(result.stdout).user.username, 'tester');
+    assert.match(result.stderr, /Retrying GET \/v2\/user in 0\.0s \(retry 1\/3\): HTTP 503: Service Unavailable/);
+    assert.match(result.stderr, /\(retry 2\/3\)/);
+    assert.equal(attempts('/v2/user'), 3);
+  });
+
+  test('gives up after --retries', async () => {
+    api.fail({ path: '/v2/user', status: 502, headers: { 'Retry-After': '0' }, times: Infinity });
+    const result = await runCli(api, ['user', '--retries', '2']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /HTTP 502: Bad Gateway\n$/);
+    assert.equal(attempts('/v2/user'), 3);
+  });
+
+  test('does not retry a failed write', async () => {
+    api.fail({ method: 'POST', path: '/v3/secrets', status: 500, headers: { 'Retry-After': '0' } });
+    const result = await runCli(api, ['secret-add', 'name', 'value']);
+    assert.equal(result.status, 1);
+    assert.doesNotMatch(result.stderr, /Retrying/);
+    assert.equal(attempts('/v3/secrets'), 1);
+    assert.equal(api.state.secrets.length, 1);
+  });
+
+  test('retries a rate-limited write after Retry-After', async () => {
+    api.fail({ method: 'POST', path: '/v3/secrets', status: 429, headers: { 'Retry-After': '0' } });
+    await runJson(api, ['secret-add', 'name', 'value']);
+    assert.equal(attempts('/v3/secrets'), 2);
+    assert.ok(api.state.secrets.some((s) => s.name === 'name'));
+  });
+
+  test('reports when the rate limit resets instead of waiting long', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    api.fail({
+      path: '/v2/user',
+      status: 429,
+      body: { error: { code: 'rate_limited', message: 'Rate limit exceeded' } },
+      headers: { 'X-RateLimit-Reset': String(reset) },
+    });
+    const result = await runCli(api, ['user']);
+    assert.equal(result.status, 1);
+    assert.equal(result.stderr, `API Error: Rate limit exceeded (rate limit resets at ${new Date(reset * 1000).toISOString()})\n`);
+    assert.equal(attempts('/v2/user'), 1);
+  });
+});
+
+describe('network failures', () => {
+  test('retries a dropped connection', async () => {
+    api.fail({ path: '/v2/user', reset: true });
+    const result = await runCli(api, ['user']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /Retrying GET \/v2\/user .*Request failed: socket hang up/);
+  });
+
+  test('reports a dropped connection once retries run out', async () => {
+    api.fail({ path: '/v2/user', reset: true });
+    const result = await runCli(api, ['user', '--retries', '0']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Request failed: socket hang up/);
+  });
+
+  test('times out a slow response', async () => {
+    api.fail({ path: '/v2/user', delay: 1000 });
+    const result = await runCli(api, ['user', '--retries', '0', '--request-timeout', '100ms']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Request failed: timeout of 100ms exceeded/);
+  });
+
+  test('reports an unreachable API', async () => {
+    const url = api.url;
+    await api.close();
+    const result = await runCli({ url }, ['user', '--retries', '0']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Request failed: connect ECONNREFUSED/);
+    api = await MockVercelApi.start();
+  });
+});
+
+describe('usage errors and dry runs', () => {
+  test('points to help for an unknown command', async () => {
+    const result = await runCli(api, ['nope']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Unknown command/);
+    assert.equal(api.requests.length, 0);
+  });
+
+  test('points to help for a missing argument', async () => {
+    const result = await runCli(api, ['project']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /project --help/);
+  });
+
+  test('reads but does not write in a dry run', async () => {
+    const result = await runJson(api, ['project-delete', 'web', '--dry-run']);
+    assert.deepEqual(result, { dryRun: true, requests: [{ method: 'DELETE', path: '/v9/projects/web' }] });
+    assert.equal(api.sent('DELETE').length, 0);
+    assert.ok(api.state.projects.some((p) => p.name === 'web'));
+  });
+});
+
+describe('help and completion', () => {
+  test('lists every command by group and describes one', async () => {
+    const all = await runCli(api, ['help']);
+    assert.equal(all.status, 0);
+    assert.match(all.stdout, /^DEPLOYMENTS:$/m);
+    assert.match(all.stdout, /^ {2}cert-upload --cert <cert> --key <key> --ca <ca>\n +Upload a custom certificate$/m);
+
+    const one = await runCli(api, ['rollback', '--help']);
+    assert.equal(one.status, 0);
+    assert.match(one.stdout, /USAGE:\n {2}vercel\.sh rollback <project> \[flags\]/);
+    assert.match(one.stdout, /--steps/);
+    assert.match((await runCli(api, ['help', 'rollback'])).stdout, /^USAGE:\n {2}vercel\.sh rollback <project> \[flags\]/);
+    assert.equal(api.requests.length, 0);
+  });
+
+  test('describes the same deployment references on every deployment command', async () => {
+    for (const command of ['deployment', 'logs', 'cancel']) {
+      assert.match((await runCli(api, [command, '--help'])).stdout, /deployment +Deployment ID, URL or alias, or project@latest \/ project@production/);
+    }
+  });
+
+  test('shows each flag default once', async () => {
+    for (const command of ['status', 'certs-expiring', 'deployments-prune']) {
+      const { stdout } = await runCli(api, [command, '--help']);
+      assert.match(stdout, /--concurrency <number> +.+ \(default: 5\)$/m);
+      assert.doesNotMatch(stdout, /\(default: [^)]*\).*\(default:/);
+    }
+  });
+
+  test('prints completion scripts without a token', async () => {
+    const bash = await runCli(api, ['completion', 'bash'], { env: { VERCEL_TOKEN: undefined } });
+    assert.equal(bash.status, 0, bash.stderr);
+    assert.match(bash.stdout, /complete -F _vercel_sh vercel\.sh/);
+    assert.match(bash.stdout, /--group-by\) COMPREPLY=\( \$\(compgen -W "project day"/);
+    for (const shell of ['zsh', 'fish']) assert.equal((await runCli(api, ['completion', shell])).status, 0);
+
+    const unknown = await runCli(api, ['completion', 'powershell']);
+    assert.equal(unknown.status, 1);
+    assert.match(unknown.stderr, /Unsupported shell 'powershell' \(expected bash, zsh, fish\)/);
+  });
+});
@@ -0,0 +1,74 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MOCK_TOKEN, MockVercelApi } from './mock-server';
+
+export interface CliResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunOptions {
+  // Written to the CLI's stdin, which is closed either way so nothing waits on a terminal
+  input?: string;
+  env?: Record<string, string | undefined>;
+  cwd?: string;
+}
+
+const CLI_TIMEOUT = 30000;
+const ROOT = path.resolve(__dirname, '..');
+// Compiled tests (npm test) run the compiled CLI; under ts-node they run the sources
+const CLI_ARGS = __filename.endsWith('.js')
+  ? [path.join(ROOT, 'cli.js')]
+  : ['-r', require.resolve('ts-node/register/transpile-only'), path.join(ROOT, 'cli.ts')];
+
+const tempDirs: string[] = [];
+process.on('exit', () => tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+// Temporary directory removed when the test process exits
+export function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vercel-cli-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// Runs the CLI against the mock API with a private HOME, config and env file, so neither the
+// developer's profiles nor their VERCEL_* variables leak in. The child must be spawned
+// asynchronously: the mock server answers from this process.
+export function runCli(api: Pick<MockVercelApi, 'url'>, args: string[], options: RunOptions = {}): Promise<CliResult> {
+  const home = tempDir();
+  const env: Record<string, string | undefined> = {
+    PATH: process.env.PATH,
+    HOME: home,
+    VERCEL_TOKEN: MOCK_TOKEN,
+    VERCEL_API_URL: api.url,
+    VERCEL_CONFIG: path.join(home, 'vercel.json'),
+    VERCEL_ENV_FILE: path.join(home, '.env'),
+    // ts-node looks for tsconfig.json from the working directory otherwise
+    TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+    ...options.env,
+  };
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [...CLI_ARGS, ...args], { cwd: options.cwd ?? home, env });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    const timer = setTimeout(() => child.kill(), CLI_TIMEOUT);
+    child.on('error', reject);
+    child.on('close', (status) => {
+      clearTimeout(timer);
+      resolve({ status, stdout, stderr });
+    });
+    child.stdin.end(options.input);
+  });
+}
+
+// Runs a command that should succeed and parses its JSON output
+export async function runJson<T = any>(api: Pick<MockVercelApi, 'url'>, args: string[], options?: RunOptions): Promise<T> {
+  const result = await runCli(api, args, options);
+  if (result.status !== 0) throw new Error(`vercel ${args.join(' ')} exited ${result.status}: ${result.stderr}`);
+  return JSON.parse(result.stdout);
+}
@@ -0,0 +1,669 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TERMINAL_STATES } from '../client';
+import { Deployment, DnsRecord, Domain, EnvTarget, EnvVar, Project } from '../types';
+import { defaultFixtures, Fixtures } from './fixtures';
+
+// Local stand-in for the Vercel REST API, covering the endpoints VercelClient calls. It keeps its
+// state in memory, starting from fixtures, so commands that change something can be checked by
+// reading it back. Run it on its own with `npm run mock-server` and point the CLI at it with
+// VERCEL_API_URL.
+
+export const MOCK_TOKEN = 'test-token';
+
+export interface MockServerOptions {
+  fixtures?: Fixtures;
+  // Bearer token the server accepts
+  token?: string;
+  // 0 picks a free port
+  port?: number;
+  // Largest page a list endpoint returns, whatever limit is asked for; lower it to exercise cursors
+  pageSize?: number;
+  // Print each request to stdout
+  log?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: any;
+}
+
+// Makes matching requests fail before they reach a route: with an error response, a dropped
+// connection, or only a delay
+export interface Fault {
+  method?: string;
+  // Matched against the path without the query string
+  path: string | RegExp;
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Destroy the connection without answering
+  reset?: boolean;
+  // Milliseconds to wait before answering
+  delay?: number;
+  // Number of requests to fail (default 1)
+  times?: number;
+}
+
+interface RequestContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  raw: Buffer;
+  headers: http.IncomingHttpHeaders;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (context: RequestContext) => unknown;
+}
+
+// Answered as { error: { code, message, ...details } }, like the real API
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const notFound = (what: string) => new HttpError(404, 'not_found', `${what} not found`);
+const timeOf = (item: any): number => item.createdAt ?? item.created ?? 0;
+const apexOf = (name: string) => name.split('.').slice(-2).join('.');
+const targetsOf = (env: EnvVar): EnvTarget[] => (Array.isArray(env.target) ? env.target : env.target ? [env.target] : []);
+
+// Newest first, paged on the creation time like the API's until cursor
+function pageOf(key: string, items: unknown[], query: Record<string, string>, maxSize: number): Record<string, unknown> {
+  let rows = [...items].sort((a, b) => timeOf(b) - timeOf(a));
+  if (query.until) rows = rows.filter((row) => timeOf(row) < Number(query.until));
+  if (query.since) rows = rows.filter((row) => timeOf(row) > Number(query.since));
+  const limit = Math.min(Number(query.limit) || DEFAULT_PAGE_SIZE, maxSize);
+  const slice = rows.slice(0, limit);
+  const next = rows.length > limit ? timeOf(slice[slice.length - 1]) : null;
+  return { [key]: slice, pagination: { count: slice.length, next, prev: null } };
+}
+
+export class MockVercelApi {
+  readonly state: Fixtures;
+  readonly requests: RecordedRequest[] = [];
+  url = '';
+  // Most requests in flight at once, to check the CLI's concurrency limits
+  peakConcurrency = 0;
+  private active = 0;
+  private faults: Fault[] = [];
+  private routes: Route[] = [];
+  private server: http.Server;
+  private sequence = 0;
+
+  constructor(private options: MockServerOptions = {}) {
+    this.state = options.fixtures ?? defaultFixtures();
+    this.server = http.createServer((req, res) => {
+      this.peakConcurrency = Math.max(this.peakConcurrency, ++this.active);
+      res.on('close', () => this.active--);
+      this.handle(req, res).catch((error) => this.send(res, 500, { error: { code: 'internal_server_error', message: String(error) } }));
+    });
+    this.registerRoutes();
+  }
+
+  static async start(options: MockServerOptions = {}): Promise<MockVercelApi> {
+    const api = new MockVercelApi(options);
+    await new Promise<void>((resolve) => api.server.listen(options.port ?? 0, '127.0.0.1', resolve));
+    api.url = `http://127.0.0.1:${(api.server.address() as AddressInfo).port}`;
+    return api;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  fail(fault: Fault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  // Requests that reached the server, optionally only those for one method
+  sent(method?: string): RecordedRequest[] {
+    return method ? this.requests.filter((request) => request.method === method) : this.requests;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const query = Object.fromEntries(url.searchParams);
+    const json = String(req.headers['content-type'] || '').includes('json') && raw.length > 0;
+    let body: any;
+    try {
+      body = json ? JSON.parse(raw.toString('utf8')) : undefined;
+    } catch {
+      return this.send(res, 400, { error: { code: 'bad_request', message: 'Invalid JSON body' } });
+    }
+    this.requests.push({ method, path: url.pathname, query, ...(body !== undefined && { body }) });
+    if (this.options.log) console.log(method, `${url.pathname}${url.search}`);
+
+    const fault = this.takeFault(method, url.pathname);
+    if (fault?.delay) await new Promise((resolve) => setTimeout(resolve, fault.delay));
+    if (fault?.reset) {
+      req.socket.destroy();
+      return;
+    }
+    if (fault?.status) return this.send(res, fault.status, fault.body, fault.headers);
+
+    try {
+      this.authorize(req.headers, query);
+      const { route, params } = this.match(method, url.pathname);
+      const result = route.handler({ params, query, body, raw, headers: req.headers });
+      this.send(res, result === undefined ? 204 : 200, result);
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      this.send(res, error.status, { error: { code: error.code, message: error.message, ...error.details } });
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { ...(body !== undefined && { 'Content-Type': 'application/json' }), ...headers });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  private takeFault(method: string, path: string): Fault | undefined {
+    const fault = this.faults.find(
+      (f) => (!f.method || f.method === method) && (typeof f.path === 'string' ? f.path === path : f.path.test(path)),
+    );
+    if (fault && --fault.times! <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+    return fault;
+  }
+
+  private authorize(headers: http.IncomingHttpHeaders, query: Record<string, string>): void {
+    if (headers.authorization !== `Bearer ${this.options.token ?? MOCK_TOKEN}`) {
+      throw new HttpError(403, 'forbidden', 'Not authorized', { invalidToken: true });
+    }
+    if (query.teamId && !this.state.teams.some((team) => team.id === query.teamId)) {
+      throw new HttpError(403, 'forbidden', "You don't have permission to access this team");
+    }
+  }
+
+  private match(method: string, path: string): { route: Route; params: Record<string, string> } {
+    for (const route of this.routes) {
+      const match = route.method === method && path.match(route.pattern);
+      if (match) return { route, params: Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])) };
+    }
+    throw new HttpError(404, 'not_found', `The mock API has no route for ${method} ${path}`);
+  }
+
+  private route(method: string, path: string, handler: Route['handler']): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_mock${++this.sequence}`;
+  }
+
+  private project(idOrName: string): Project {
+    const project = this.state.projects.find((p) => p.id === idOrName || p.name === idOrName);
+    if (!project) throw notFound('Project');
+    return project;
+  }
+
+  private deployment(idOrUrl: string): Deployment {
+    const deployment = this.state.deployments.find((d) => d.id === idOrUrl || d.url === idOrUrl);
+    if (!deployment) throw notFound('Deployment');
+    return deployment;
+  }
+
+  private page(key: string, items: unknown[], query: Record<string, string>): Record<string, unknown> {
+    return pageOf(key, items, query, this.options.pageSize ?? MAX_PAGE_SIZE);
+  }
+
+  private pointsAtVercel(name: string): boolean {
+    const zone = apexOf(name);
+    const host = name === zone ? '' : name.slice(0, -(zone.length + 1));
+    return (this.state.records[zone] || []).some(
+      (record) => record.name === host && ((record.type === 'A' && record.value === '76.76.21.21') || (record.type === 'CNAME' && record.value === 'cname.vercel-dns.com')),
+    );
+  }
+
+  private projectDomains(projectId: string): Domain[] {
+    return (this.state.projectDomains[projectId] ??= []);
+  }
+
+  private envs(projectId: string): EnvVar[] {
+    return (this.state.envs[projectId] ??= []);
+  }
+
+  private zone(domain: string): DnsRecord[] {
+    const records = this.state.records[domain];
+    if (!records) throw notFound('Domain');
+    return records;
+  }
+
+  // The v6 list returns uid/state/created instead of id/readyState/createdAt
+  private listedDeployment(deployment: Deployment): Deployment {
+    const { id, readyState, createdAt, ...rest } = deployment;
+    return { ...rest, uid: id, state: readyState, created: createdAt, createdAt };
+  }
+
+  // Encrypted values are only readable one at a time, and sensitive ones never
+  private listedEnv(env: EnvVar): EnvVar {
+    if (env.type === 'plain') return env;
+    return { ...env, value: env.type === 'encrypted' ? Buffer.from(env.value || '').toString('base64') : '' };
+  }
+
+  // New deployments advance one state per read, so waiting on them can be tested without a clock
+  private advance(deployment: Deployment): Deployment {
+    if (deployment.readyState === 'QUEUED') deployment.readyState = 'BUILDING';
+    else if (deployment.readyState === 'BUILDING') deployment.readyState = 'READY';
+    return deployment;
+  }
+
+  private createDeployment(projectName: string, target: string | null, meta: Record<string, string> = {}): Deployment {
+    let project = this.state.projects.find((p) => p.name === projectName);
+    if (!project) {
+      project = { id: this.id('prj'), name: projectName, framework: null, createdAt: Date.now(), updatedAt: Date.now() };
+      this.state.projects.push(project);
+    }
+    const id = this.id('dpl');
+    const deployment: Deployment = {
+      id,
+      name: project.name,
+      url: `${project.name}-${id.split('_')[1]}.vercel.app`,
+      readyState: 'QUEUED',
+      target,
+      projectId: project.id,
+      createdAt: Date.now() + this.sequence,
+      meta,
+    };
+    this.state.deployments.push(deployment);
+    return deployment;
+  }
+
+  // Promote and rollback both move the project's production target and its domains' aliases
+  private pointProduction(project: Project, deployment: Deployment): void {
+    const previous = project.targets?.production;
+    project.targets = { ...project.targets, production: deployment };
+    deployment.target = 'production';
+    const domains = this.projectDomains(project.id).map((domain) => domain.name);
+    for (const alias of this.state.aliases.filter((a) => domains.includes(a.alias))) alias.deploymentId = deployment.id;
+    deployment.alias = domains;
+    if (previous) this.state.deployments.find((d) => d.id === previous.id)!.alias = [];
+  }
+
+  private registerRoutes(): void {
+    const { state } = this;
+
+    // User and teams
+    this.route('GET', '/v2/user', () => ({ user: state.user }));
+    this.route('GET', '/v2/teams', ({ query }) => this.page('teams', state.teams, query));
+    this.route('GET', '/v2/teams/:team', ({ params }) => {
+      const team = state.teams.find((t) => t.id === params.team || t.slug === params.team);
+      if (!team) throw notFound('Team');
+      return team;
+    });
+
+    // Projects
+    this.route('GET', '/v10/projects', ({ query }) => this.page('projects', state.projects, query));
+    this.route('GET', '/v9/projects/:project', ({ params }) => this.project(params.project));
+    this.route('POST', '/v10/projects', ({ body }) => {
+      if (state.projects.some((p) => p.name === body.name)) throw new HttpError(409, 'conflict', 'A project with this name already exists');
+      const project: Project = { id: this.id('prj'), name: body.name, framework: body.framework ?? null, createdAt: Date.now(), updatedAt: Date.now() };
+      if (body.gitRepository) this.link(project, body.gitRepository);
+      state.projects.push(project);
+      return project;
+    });
+    this.route('PATCH', '/v9/projects/:project', ({ params, body }) => {
+      const project = this.project(params.project);
+      Object.assign(project, body, { updatedAt: Date.now() });
+      return project;
+    });
+    this.route('POST', '/v9/projects/:project/link', ({ params, body }) => {
+      const project = this.project(params.project);
+      this.link(project, body);
+      return project;
+    });
+    this.route('DELETE', '/v9/projects/:project/link', ({ params }) => {
+      const project = this.project(params.project);
+      delete project.link;
+      return project;
+    });
+    this.route('DELETE', '/v9/projects/:project', ({ params }) => {
+      const project = this.project(params.project);
+      state.projects.splice(state.projects.indexOf(project), 1);
+      delete state.envs[project.id];
+      delete state.projectDomains[project.id];
+      return undefined;
+    });
+    this.route('POST', '/v10/projects/:project/promote/:deployment', ({ params }) => {
+      const deployment = this.deployment(params.deployment);
+      if (deployment.readyState !== 'READY') throw new HttpError(400, 'deployment_not_ready', 'The deployment is not ready');
+      this.pointProduction(this.project(params.project), deployment);
+      return {};
+    });
+    this.route('POST', '/v9/projects/:project/rollback/:deployment', ({ params }) => {
+      const deployment = this.deployment(params.deployment);
+      if (deployment.target !== 'production') throw new HttpError(400, 'invalid_rollback', 'Only production deployments can be rolled back to');
+      this.pointProduction(this.project(params.project), deployment);
+      return {};
+    });
+
+    // Deployments
+    this.route('GET', '/v6/deployments', ({ query }) => {
+      let deployments = state.deployments;
+      if (query.projectId) {
+        const project = this.project(query.projectId);
+        deployments = deployments.filter((d) => d.projectId === project.id);
+      }
+      if (query.target) deployments = deployments.filter((d) => (d.target ?? 'preview') === query.target);
+      if (query.state) deployments = deployments.filter((d) => d.readyState === query.state);
+      return this.page('deployments', deployments.map((d) => this.listedDeployment(d)), query);
+    });
+    this.route('GET', '/v13/deployments/:deployment', ({ params }) => this.advance(this.deployment(params.deployment)));
+    this.route('POST', '/v13/deployments', ({ body }) => {
+      if (body.files) {
+        const missing = [...new Set<string>(body.files.map((file: { sha: string }) => file.sha))].filter((sha) => !state.files.includes(sha));
+        if (missing.length) throw new HttpError(400, 'missing_files', 'Missing files', { missing });
+      }
+      const meta: Record<string, string> = {};
+      if (body.gitSource) {
+        const { type, ref, sha, repoId, projectId, owner, slug } = body.gitSource;
+        const link = this.project(body.name).link || {};
+        const linked = link.type === type && (type === 'bitbucket' ? owner === link.org && slug === link.repo : (repoId ?? projectId) === link.repoId);
+        if (!linked) throw new HttpError(400, 'incorrect_git_source_info', 'The gitSource does not match the repository linked to the project');
+        meta[`${type}CommitRef`] = ref;
+        if (sha) meta[`${type}CommitSha`] = sha;
+      }
+      return this.createDeployment(body.name, body.target === 'production' ? 'production' : null, meta);
+    });
+    this.route('POST', '/v13/deployments/:deployment/redeploy', ({ params }) => {
+      const original = this.deployment(params.deployment);
+      return this.createDeployment(original.name!, original.target ?? null, original.meta);
+    });
+    this.route('PATCH', '/v13/deployments/:deployment', ({ params, body }) => {
+      const deployment = this.deployment(params.deployment);
+      if (body?.state === 'CANCELED') {
+        if (TERMINAL_STATES.includes(deployment.readyState!)) {
+          throw new HttpError(400, 'deployment_not_cancelable', `The deployment is already ${deployment.readyState}`);
+        }
+        deployment.readyState = 'CANCELED';
+      }
+      return deployment;
+    });
+    this.route('DELETE', '/v13/deployments/:deployment', ({ params }) => {
+      const deployment = this.deployment(params.deployment);
+      state.deployments.splice(state.deployments.indexOf(deployment), 1);
+      state.aliases = state.aliases.filter((alias) => alias.deploymentId !== deployment.id);
+      return { uid: deployment.id, state: 'DELETED' };
+    });
+    this.route('GET', '/v13/deployments/:deployment/events', ({ params, query }) => {
+      const deployment = this.deployment(params.deployment);
+      let events = state.events[deployment.id!] || [];
+      // since is inclusive, as with the real API
+      if (query.since) events = events.filter((event) => (event.created ?? 0) >= Number(query.since));
+      if (query.until) events = events.filter((event) => (event.created ?? 0) <= Number(query.until));
+      return query.limit ? events.slice(0, Number(query.limit)) : events;
+    });
+    this.route('GET', '/v6/deployments/:deployment/files', ({ params }) => state.trees[this.deployment(params.deployment).id!] ?? []);
+    this.route('GET', '/v8/deployments/:deployment/files/:file', ({ params }) => {
+      this.deployment(params.deployment);
+      const content = state.contents[params.file];
+      if (content === undefined) throw notFound('File');
+      return { data: Buffer.from(content).toString('base64') };
+    });
+    this.route('GET', '/v11/deployments/:deployment/builds', ({ params }) => ({ builds: state.builds[this.deployment(params.deployment).id!] ?? [] }));
+    this.route('GET', '/v2/deployments/:deployment/aliases', ({ params }) => {
+      const deployment = this.deployment(params.deployment);
+      return { aliases: state.aliases.filter((alias) => alias.deploymentId === deployment.id) };
+    });
+    this.route('POST', '/v2/files', ({ raw, headers }) => {
+      const sha = crypto.createHash('sha1').update(raw).digest('hex');
+      if (headers['x-vercel-digest'] !== sha) throw new HttpError(400, 'invalid_digest', 'The file does not match x-vercel-digest');
+      if (!state.files.includes(sha)) state.files.push(sha);
+      return {};
+    });
+
+    // Aliases
+    this.route('GET', '/v4/aliases', ({ query }) => {
+      const projectId = query.projectName ? this.project(query.projectName).id : undefined;
+      return this.page('aliases', state.aliases.filter((alias) => !projectId || alias.projectId === projectId), query);
+    });
+    this.route('GET', '/v4/aliases/:alias', ({ params }) => {
+      const alias = state.aliases.find((a) => a.uid === params.alias || a.alias === params.alias);
+      if (!alias) throw notFound('Alias');
+      return alias;
+    });
+
+    // Domains
+    this.route('GET', '/v5/domains', ({ query }) => {
+      // projectName keeps the zones the project has domains in
+      const apexes = query.projectName && this.projectDomains(this.project(query.projectName).id).map((domain) => domain.apexName);
+      return this.page('domains', state.domains.filter((domain) => !apexes || apexes.includes(domain.name)), query);
+    });
+    this.route('GET', '/v5/domains/:domain', ({ params }) => {
+      const domain = state.domains.find((d) => d.name === params.domain);
+      if (!domain) throw notFound('Domain');
+      return { domain };
+    });
+    this.route('POST', '/v5/domains/:domain/verify', ({ params }) => {
+      const domain = state.domains.find((d) => d.name === params.domain);
+      if (!domain) throw notFound('Domain');
+      return domain;
+    });
+    // Domains without a fixture config are configured once their zone points them at Vercel
+    this.route('GET', '/v6/domains/:domain/config', ({ params }) => state.domainConfigs[params.domain] ?? { misconfigured: !this.pointsAtVercel(params.domain) });
+    this.route('GET', '/v9/projects/:project/domains', ({ params, query }) =>
+      this.page('domains', this.projectDomains(this.project(params.project).id), query),
+    );
+    this.route('GET', '/v9/projects/:project/domains/:domain', ({ params }) => {
+      const domain = this.projectDomains(this.project(params.project).id).find((d) => d.name === params.domain);
+      if (!domain) throw notFound('Domain');
+      return domain;
+    });
+    this.route('POST', '/v10/projects/:project/domains', ({ params, body }) => {
+      const project = this.project(params.project);
+      if (Object.values(state.projectDomains).some((domains) => domains.some((d) => d.name === body.name))) {
+        throw new HttpError(409, 'domain_already_in_use', `The domain ${body.name} is already in use`);
+      }
+      const apexName = apexOf(body.name);
+      // Zones in the account are verified right away; others need a TXT challenge
+      const verified = state.domains.some((d) => d.name === apexName);
+      const domain: Domain = {
+        name: body.name,
+        apexName,
+        projectId: project.id,
+        verified,
+        createdAt: Date.now(),
+        ...(!verified && { verification: [{ type: 'TXT', domain: `_vercel.${apexName}`, value: `vc-domain-verify=${body.name},mock`, reason: 'pending_domain_verification' }] }),
+      };
+      this.projectDomains(project.id).push(domain);
+      return domain;
+    });
+    this.route('DELETE', '/v10/projects/:project/domains/:domain', ({ params }) => {
+      const domains = this.projectDomains(this.project(params.project).id);
+      const index = domains.findIndex((d) => d.name === params.domain);
+      if (index === -1) throw notFound('Domain');
+      domains.splice(index, 1);
+      return {};
+    });
+    this.route('POST', '/v9/projects/:project/domains/:domain/verify', ({ params }) => {
+      const domain = this.projectDomains(this.project(params.project).id).find((d) => d.name === params.domain);
+      if (!domain) throw notFound('Domain');
+      const challenges = domain.verification || [];
+      const passed = challenges.every((challenge) =>
+        (state.records[apexOf(challenge.domain)] || []).some((record) => record.type === 'TXT' && record.value === challenge.value),
+      );
+      if (!domain.verified && !passed) throw new HttpError(400, 'missing_txt_record', `Domain ${domain.name} is missing the TXT record`);
+      domain.verified = true;
+      delete domain.verification;
+      return domain;
+    });
+
+    // Environment variables
+    this.route('GET', '/v10/projects/:project/env', ({ params, query }) => {
+      let envs = this.envs(this.project(params.project).id);
+      if (query.target) envs = envs.filter((env) => targetsOf(env).includes(query.target as EnvTarget));
+      return this.page('envs', envs.map((env) => this.listedEnv(env)), query);
+    });
+    this.route('GET', '/v1/projects/:project/env/:env', ({ params }) => {
+      const env = this.envs(this.project(params.project).id).find((e) => e.id === params.env);
+      if (!env) throw notFound('Environment variable');
+      return env.type === 'sensitive' ? { ...env, value: '', decrypted: false } : { ...env, decrypted: env.type !== 'plain' };
+    });
+    this.route('POST', '/v10/projects/:project/env', ({ params, query, body }) => {
+      const envs = this.envs(this.project(params.project).id);
+      const created = (Array.isArray(body) ? body : [body]).map((input: EnvVar) => {
+        const targets = targetsOf(input);
+        const existing = envs.find(
+          (env) => env.key === input.key && (env.gitBranch || '') === (input.gitBranch || '') && targetsOf(env).some((t) => targets.includes(t)),
+        );
+        if (existing && query.upsert !== 'true') {
+          throw new HttpError(400, 'ENV_CONFLICT', `A variable with the name \`${input.key}\` already exists for the target ${targets.join(', ')}`);
+        }
+        if (existing) return Object.assign(existing, input, { updatedAt: Date.now() });
+        const env: EnvVar = { type: 'encrypted', ...input, id: this.id('env'), createdAt: Date.now() + this.sequence };
+        envs.push(env);
+        return env;
+      });
+      return { created: Array.isArray(body) ? created.map((env) => this.listedEnv(env)) : this.listedEnv(created[0]) };
+    });
+    this.route('PATCH', '/v9/projects/:project/env/:env', ({ params, body }) => {
+      const env = this.envs(this.project(params.project).id).find((e) => e.id === params.env);
+      if (!env) throw notFound('Environment variable');
+      return this.listedEnv(Object.assign(env, body, { updatedAt: Date.now() }));
+    });
+    this.route('DELETE', '/v10/projects/:project/env/:env', ({ params }) => {
+      const envs = this.envs(this.project(params.project).id);
+      const index = envs.findIndex((e) => e.id === params.env);
+      if (index === -1) throw notFound('Environment variable');
+      return this.listedEnv(envs.splice(index, 1)[0]);
+    });
+
+    // DNS
+    this.route('GET', '/v4/domains/:domain/records', ({ params, query }) => this.page('records', this.zone(params.domain), query));
+    this.route('POST', '/v2/domains/:domain/records', ({ params, body }) => {
+      const records = this.zone(params.domain);
+      const { srv, https, ...input } = body;
+      const record: DnsRecord = { id: this.id('rec'), creator: 'user', createdAt: Date.now() + this.sequence, ...input };
+      // Listed like the real API: the priority apart from the rest of the data
+      if (srv) Object.assign(record, { value: `${srv.weight} ${srv.port} ${srv.target}`, priority: srv.priority });
+      if (https) Object.assign(record, { value: [https.target, https.params].filter(Boolean).join(' '), priority: https.priority });
+      records.push(record);
+      return { uid: record.id };
+    });
+    this.route('PATCH', '/v1/domains/records/:record', ({ params, body }) => {
+      const record = Object.values(state.records).flat().find((r) => r.id === params.record);
+      if (!record) throw notFound('DNS record');
+      return Object.assign(record, body);
+    });
+    this.route('DELETE', '/v2/domains/:domain/records/:record', ({ params }) => {
+      const records = this.zone(params.domain);
+      const index = records.findIndex((r) => r.id === params.record);
+      if (index === -1) throw notFound('DNS record');
+      records.splice(index, 1);
+      return {};
+    });
+
+    // Secrets, certificates and usage
+    this.route('GET', '/v3/secrets', () => ({ secrets: state.secrets }));
+    this.route('POST', '/v3/secrets', ({ body }) => {
+      if (state.secrets.some((s) => s.name === body.name)) throw new HttpError(409, 'secret_name_conflict', `Secret ${body.name} already exists`);
+      const secret = { uid: this.id('sec'), name: body.name, created: new Date().toISOString() };
+      state.secrets.push(secret);
+      return secret;
+    });
+    this.route('DELETE', '/v3/secrets/:secret', ({ params }) => {
+      const index = state.secrets.findIndex((s) => s.name === params.secret || s.uid === params.secret);
+      if (index === -1) throw notFound('Secret');
+      const [secret] = state.secrets.splice(index, 1);
+      return { uid: secret.uid, name: secret.name };
+    });
+    this.route('GET', '/v5/certs', ({ query }) =>
+      this.page('certs', state.certs.filter((cert) => !query.domain || cert.cns.includes(query.domain)), query),
+    );
+    this.route('GET', '/v5/certs/:cert', ({ params }) => {
+      const cert = state.certs.find((c) => c.id === params.cert || c.uid === params.cert);
+      if (!cert) throw notFound('Certificate');
+      return cert;
+    });
+    // Issued certificates are valid for 90 days and only for domains attached to a project
+    this.route('POST', '/v8/certs', ({ body }) => {
+      const attached = Object.values(state.projectDomains).flat().map((domain) => domain.name);
+      const unknown = (body.cns as string[]).filter((name) => !attached.includes(name));
+      if (unknown.length) throw new HttpError(400, 'invalid_cns', `Domains not attached to a project: ${unknown.join(', ')}`);
+      const cert = { id: this.id('cert'), cns: body.cns, createdAt: Date.now(), expiresAt: Date.now() + 90 * 24 * 3600 * 1000, autoRenew: true };
+      state.certs.push(cert);
+      return cert;
+    });
+    this.route('PUT', '/v8/certs', ({ body }) => {
+      let x509: crypto.X509Certificate;
+      try {
+        x509 = new crypto.X509Certificate(body.cert);
+      } catch {
+        throw new HttpError(400, 'invalid_cert', 'The certificate is not valid PEM');
+      }
+      if (!body.key || !body.ca) throw new HttpError(400, 'bad_request', 'key and ca are required');
+      const cns = (x509.subjectAltName || '').split(', ').map((name) => name.replace(/^DNS:/, ''));
+      const cert = { id: this.id('cert'), cns, createdAt: Date.now(), expiresAt: Date.parse(x509.validTo), autoRenew: false };
+      state.certs.push(cert);
+      return cert;
+    });
+    this.route('DELETE', '/v8/certs/:cert', ({ params }) => {
+      const index = state.certs.findIndex((c) => c.id === params.cert || c.uid === params.cert);
+      if (index === -1) throw notFound('Certificate');
+      state.certs.splice(index, 1);
+      return {};
+    });
+    // Records are filtered by day; the totals cover the records returned
+    this.route('GET', '/v1/billing/usage', ({ query }) => {
+      const start = query.from ? Date.parse(query.from) : state.usage.period!.start;
+      const end = query.to ? Date.parse(query.to) : state.usage.period!.end;
+      const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+      const records = (state.usage.records || []).filter((r) => r.day >= day(start) && r.day <= day(end));
+      const total = (metric: 'bandwidth' | 'functionInvocations' | 'buildMinutes') => records.reduce((sum, r) => sum + r[metric], 0);
+      return {
+        period: { start, end },
+        bandwidth: total('bandwidth'),
+        functionInvocations: total('functionInvocations'),
+        buildMinutes: total('buildMinutes'),
+        records,
+      };
+    });
+  }
+
+  // GitLab repositories may sit in nested groups, which end up in org
+  private link(project: Project, gitRepository: { type: string; repo: string }): void {
+    const org = gitRepository.repo.slice(0, gitRepository.repo.lastIndexOf('/'));
+    const repo = gitRepository.repo.slice(gitRepository.repo.lastIndexOf('/') + 1);
+    project.link = { type: gitRepository.type, org, repo, repoId: 1000 + this.sequence, productionBranch: 'main' };
+  }
+}
+
+// npm run mock-server -- [--port 4555] [--fixtures state.json]; fixture files are merged over the defaults
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const file = flag('fixtures');
+  const fixtures = file ? { ...defaultFixtures(), ...JSON.parse(fs.readFileSync(file, 'utf8')) } : undefined;
+  MockVercelApi.start({ fixtures, port: Number(flag('port') ?? 4555), log: true }).then((api) => {
+    console.log(`Mock Vercel API listening on ${api.url}`);
+    console.log(`Try: VERCEL_API_URL=${api.url} VERCEL_TOKEN=${MOCK_TOKEN} ./vercel.sh projects`);
+  });
+}
@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { parse as parseYaml } from 'yaml';
+import { readSpec } from '../spec';
+import { runCli, runJson, tempDir } from './harness';
+import { MockVercelApi } from './mock-server';
+
+let api: MockVercelApi;
+beforeEach(async () => {
+  api = await MockVercelApi.start();
+});
+afterEach(() => api.close());
+
+describe('projects', () => {
+  test('lists projects newest first', async () => {
+    const { projects } = await runJson(api, ['projects']);
+    assert.deepEqual(projects.map((p: any) => p.name), ['api', 'web']);
+  });
+
+  test('follows pagination cursors with --all', async () => {
+    await api.close();
+    api = await MockVercelApi.start({ pageSize: 1 });
+    const { projects, pagination } = await runJson(api, ['projects', '--all']);
+    assert.deepEqual(projects.map((p: any) => p.name), ['api', 'web']);
+    assert.equal(pagination.next, null);
+    assert.equal(api.sent('GET').length, 2);
+  });
+
+  test('prints table output', async () => {
+    const result = await runCli(api, ['projects', '--output', 'table', '--fields', 'name,framework']);
+    assert.equal(result.status, 0);
+    assert.equal(result.stdout, 'NAME  FRAMEWORK\napi\nweb   nextjs\n');
+  });
+
+  test('prints YAML that reads back as the JSON output', async () => {
+    const values = ['ends with:', 'key: value', '- leading dash', '? leading question', 'a # comment', '#hash', '42', '1e3', '0x1F', '007', 'true', ''];
+    api.state.envs.prj_web.push(
+      ...values.map((value, i) => ({ id: `env_yaml${i}`, key: `YAML_${i}`, value, type: 'plain' as const, target: ['development' as const] })),
+    );
+    const args = ['env-list', 'web', '--env', 'development'];
+    const json = await runJson(api, args);
+    assert.deepEqual(json.envs.filter((env: any) => env.key.startsWith('YAML_')).map((env: any) => env.value), values);
+
+    const yaml = await runCli(api, [...args, '--output', 'yaml']);
+    assert.equal(yaml.status, 0, yaml.stderr);
+    assert.deepEqual(parseYaml(yaml.stdout), json);
+    const fields = await runCli(api, [...args, '--output', 'yaml', '--fields', 'key,value']);
+    assert.deepEqual(parseYaml(fields.stdout), json.envs.map((env: any) => ({ key: env.key, value: env.value })));
+  });
+
+  test('gets a project by name', async () => {
+    const project = await runJson(api, ['project', 'web']);
+    assert.equal(project.id, 'prj_web');
+  });
+
+  test('reports an unknown project', async () => {
+    const result = await runCli(api, ['project', 'nope']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /API Error: Project not found/);
+  });
+
+  test('creates a project linked to a repository', async () => {
+    const project = await runJson(api, ['project-create', 'blog', '--framework', 'astro', '--git-repo', 'acme/blog']);
+    assert.equal(project.framework, 'astro');
+    assert.deepEqual(api.sent('POST')[0].body, { name: 'blog', framework: 'astro', gitRepository: { type: 'github', repo: 'acme/blog' } });
+    assert.ok(api.state.projects.some((p) => p.name === 'blog' && p.link?.repo === 'blog'));
+  });
+
+  test('reports a name conflict', async () => {
+    const result = await runCli(api, ['project-create', 'web']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /A project with this name already exists/);
+  });
+
+  test('links a repository', async () => {
+    const project = await runJson(api, ['project-link', 'api', '--repo', 'acme/api']);
+    assert.equal(project.link.org, 'acme');
+    const [request] = api.sent('POST');
+    assert.equal(request.path, '/v9/projects/api/link');
+    assert.deepEqual(request.body, { type: 'github', repo: 'acme/api' });
+  });
+
+  test('takes GitLab URLs with nested groups and SSH remotes', async () => {
+    await runJson(api, ['project-create', 'blog', '--git-repo', 'https://gitlab.com/acme/platform/blog/-/tree/main']);
+    assert.deepEqual(api.sent('POST')[0].body.gitRepository, { type: 'gitlab', repo: 'acme/platform/blog' });
+    assert.equal(api.state.projects.find((p) => p.name === 'blog')!.link!.org, 'acme/platform');
+
+    await runJson(api, ['project-link', 'api', '--repo', 'git@bitbucket.org:acme/api.git']);
+    assert.deepEqual(api.sent('POST')[1].body, { type: 'bitbucket', repo: 'acme/api' });
+  });
+
+  test('rejects a repository the provider cannot have', async () => {
+    const conflict = await runCli(api, ['project-link', 'api', '--repo', 'https://gitlab.com/acme/api', '--git-provider', 'github']);
+    assert.equal(conflict.status, 1);
+    assert.match(conflict.stderr, /is a gitlab repository, not github/);
+
+    const nested = await runCli(api, ['project-link', 'api', '--repo', 'acme/platform/api']);
+    assert.match(nested.stderr, /github repositories are owner\/name/);
+    assert.equal(api.sent('POST').length, 0);
+  });
+
+  test('asks before unlinking a repository', async () => {
+    assert.equal((await runCli(api, ['project-unlink', 'web'])).status, 1);
+    await runJson(api, ['project-unlink', 'web', '--yes']);
+    assert.equal(api.state.projects.find((p) => p.name === 'web')!.link, undefined);
+
+    const deploy = await runCli(api, ['deploy', 'web']);
+    assert.equal(deploy.status, 1);
+    assert.match(deploy.stderr, /Project web is not linked to a git repository/);
+  });
+
+  test('asks before deleting a project', async () => {
+    const result = await runCli(api, ['project-delete', 'api']);
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Confirmation needed: pass --yes/);
+    assert.equal(api.sent('DELETE').length, 0);
+
+    await runJson(api, ['project-delete', 'api', '--yes']);
+    assert.ok(!api.state.projects.some((p) => p.name === 'api'));
+  });
+
+  test('exports a spec that plans no changes and restores the project', async () => {
+    const file = path.join(tempDir(), 'web.yaml');
+    await runJson(api, ['project-export', 'web', '--file', file]);
+    assert.match(fs.readFileSync(file, 'utf8'), /name: web/);
+
+    const plan = await runJson(api, ['project-plan', file]);
+    assert.deepEqual(plan.changes, []);
+
+    await runJson(api, ['project-delete', 'web', '--yes']);
+    const applied = await runCli(api, ['project-apply', file]);
+    assert.equal(applied.status, 0, applied.stderr);
+    // Encrypted and sensitive values are not exported, so only the plain variable comes back
+    assert.match(applied.stderr, /Warning: env STRIPE_KEY \(production\) has no value in the spec/);
+    const project = api.state.projects.find((p) => p.name === 'web')!;
+    assert.deepEqual(api.state.envs[project.id].map((env) => env.key), ['API_URL']);
+    assert.deepEqual(api.state.projectDomains[project.id].map((domain) => domain.name), ['example.com', 'www.example.com']);
+  });
+
+  test('reads back exported values that YAML would take for numbers', async () => {
+    const values = ['0x1F', '0o17', '.inf', '-.NaN', '1e3', '007', 'true', '~'];
+    api.state.envs.prj_web.push(
+      ...values.map((value, i) => ({ id: `env_num${i}`, key: `NUM_${i}`, value, type: 'plain' as const, target: ['development' as const] })),
+    );
+    const file = path.join(tempDir(), 'web.yaml');
+    await runJson(api, ['project-export', 'web', '--file', file]);
+
+    const spec = readSpec(file);
+    assert.deepEqual(spec.env!.filter((env) => env.key.startsWith('NUM_')).map((env) => env.value), values);
+    assert.deepEqual((await runJson(api, ['project-plan', file])).changes, []);
+  });
+});
+
+describe('status', () => {
+  test('summarizes the deployments and domains of every project', async () => {
+    const { status } = await runJson(api, ['status']);
+    assert.deepEqual(
+      status.map((row: any) => [row.project, row.production?.id ?? null, row.preview?.id, row.preview?.state, row.errors, row.domains.length]),
+      [
+        ['api', null, 'dpl_api1', 'ERROR', 1, 0],
+        ['web', 'dpl_web2', 'dpl_web3', 'READY', 0, 2],
+      ],
+    );
+  });
+
+  test('renders a table of the projects asked for', async () => {
+    const result = await runCli(api, ['status', '--projects', 'web', '--output', 'table']);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /^PROJECT +PRODUCTION +DEPLOYED +PREVIEW +BRANCH +BUILDING +ERRORS +DOMAINS\nweb +READY +\S+ +READY +feature +0 +0 +www\.example\.com,example\.com\n$/);
+  });
+
+  test('looks up the projects asked for with bounded concurrency', async () => {
+    api.fail({ method: 'GET', path: /^\/v9\/projects\//, delay: 100, times: Infinity });
+    const { status } = await runJson(api, ['status', '--projects', 'web,api,web,api', '--concurrency', '1']);
+    assert.equal(status.length, 4);
+    // A project's deployments and domains may be read side by side, but no two lookups overlap
+    assert.ok(api.peakConcurrency <= 2, `peak concurrency ${api.peakConcurrency}`);
+  });
+
+  test('reports what changed between refreshes in watch mode', async () => {
+    const run = runCli(api, ['status', '--watch', '--count', '2', '--interval', '500ms']);
+    // Once the first refresh has read both projects, a build starts on web
+    while (api.sent('GET').filter((r) => r.path.endsWith('/domains')).length < 2) await new Promise((resolve) => setTimeout(resolve, 10));
+    api.state.deployments.push({ id: 'dpl_web4', name: 'web', url: 'web-4.vercel.app', readyState: 'BUILDING', target: null, projectId: 'prj_web', createdAt: Date.now() });
+
+    const result = await run;
+    assert.equal(result.status, 0, result.stderr);
+    const [first, second] = result.stdout.trim().split(/\n(?=\{)/).map((document) => JSON.parse(document).status);
+    assert.equal(first[1].changes, undefined);
+    assert.deepEqual(second[0].changes, []);
+    assert.deepEqual(second[1].changes, ['preview dpl_web4 BUILDING', 'building 0 -> 1']);
+  });
+});
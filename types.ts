@@ -0,0 +1,442 @@
+// Resource models returned by VercelClient. Only commonly used fields are typed;
+// the API returns more, which are passed through untouched.
+
+export type DeploymentState = 'QUEUED' | 'INITIALIZING' | 'BUILDING' | 'READY' | 'ERROR' | 'CANCELED';
+
+export type EnvTarget = 'production' | 'preview' | 'development';
+
+export type EnvType = 'plain' | 'encrypted' | 'secret' | 'sensitive' | 'system';
+
+export interface Pagination {
+  count: number;
+  next: number | null;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export interface ListOptions {
+  // Follow pagination.next until every page has been read
+  all?: boolean;
+  // Maximum number of items across pages
+  limit?: number;
+  since?: number;
+  until?: number;
+}
+
+export interface DeploymentListOptions extends ListOptions {
+  target?: 'production' | 'preview';
+  state?: DeploymentState;
+}
+
+export interface DomainStatus {
+  verified: boolean;
+  configured: boolean;
+}
+
+export interface WaitOptions {
+  timeout: number;
+  interval: number;
+  onStateChange?: (state: DeploymentState, previous?: DeploymentState) => void;
+}
+
+export interface EventOptions {
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export type GitProvider = 'github' | 'gitlab' | 'bitbucket';
+
+// A repository as the projects API takes it; repo is namespace/name
+export interface GitRepository {
+  type: GitProvider;
+  repo: string;
+}
+
+// The namespace is the owner, the Bitbucket workspace or the GitLab group path, which may be nested
+export interface ParsedGitRepository extends GitRepository {
+  namespace: string;
+  name: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  accountId?: string;
+  framework?: string | null;
+  createdAt?: number;
+  updatedAt?: number;
+  link?: {
+    type?: string;
+    repo?: string;
+    repoId?: number;
+    org?: string;
+    productionBranch?: string;
+    [key: string]: unknown;
+  };
+  latestDeployments?: Deployment[];
+  targets?: Record<string, Deployment | undefined>;
+  [key: string]: unknown;
+}
+
+export interface Deployment {
+  // v13 endpoints return id and readyState; the v6 list returns uid and state
+  id?: string;
+  uid?: string;
+  name?: string;
+  url?: string;
+  readyState?: DeploymentState;
+  state?: DeploymentState;
+  target?: string | null;
+  projectId?: string;
+  createdAt?: number;
+  created?: number;
+  alias?: string[];
+  meta?: Record<string, string>;
+  inspectorUrl?: string;
+  regions?: string[];
+  // Names of the env vars available at runtime and during the build
+  env?: string[];
+  build?: { env?: string[] };
+  projectSettings?: ProjectSettings;
+  functions?: Record<string, unknown> | null;
+  [key: string]: unknown;
+}
+
+// An entry of a file deployment's manifest; contents are uploaded separately by SHA1
+export interface DeploymentFile {
+  file: string;
+  sha: string;
+  size: number;
+  mode?: number;
+}
+
+// Build settings sent with a file deployment, overriding the project's own
+export interface ProjectSettings {
+  framework?: string | null;
+  buildCommand?: string | null;
+  installCommand?: string | null;
+  outputDirectory?: string | null;
+  devCommand?: string | null;
+  rootDirectory?: string | null;
+}
+
+export interface FileDeploymentOptions {
+  prod?: boolean;
+  projectSettings?: ProjectSettings;
+  // Called before uploading with the number and total size of files the API is missing
+  onUpload?: (count: number, bytes: number) => void;
+}
+
+// The ways a deployment can be named on the command line
+export type DeploymentRef =
+  | { kind: 'id'; id: string }
+  // A deployment URL or an alias, custom domains included
+  | { kind: 'host'; host: string }
+  | { kind: 'latest' | 'production'; project: string };
+
+// Git metadata recorded on a deployment, from the provider-specific meta fields
+export interface DeploymentCommit {
+  sha?: string;
+  ref?: string;
+  message?: string;
+  author?: string;
+}
+
+export interface DeploymentEvent {
+  id?: string;
+  type?: string;
+  created?: number;
+  date?: number;
+  text?: string;
+  payload?: {
+    id?: string;
+    date?: number;
+    created?: number;
+    text?: string;
+    [key: string]: unknown;
+  };
+}
+
+// A node of the file tree the API keeps for a deployment
+export interface DeploymentFileNode {
+  name: string;
+  type: 'directory' | 'file' | 'symlink' | 'lambda' | 'middleware' | 'invalid';
+  uid?: string;
+  children?: DeploymentFileNode[];
+  contentType?: string;
+  mode?: number;
+  symlink?: string;
+}
+
+// A file tree node with its path from the root of the tree
+export interface DeploymentFileEntry {
+  path: string;
+  type: DeploymentFileNode['type'];
+  uid?: string;
+  mode?: number;
+}
+
+// What a build produced: a static file, a serverless function or an edge function
+export interface BuildOutput {
+  type: 'file' | 'lambda' | 'edge';
+  path: string;
+  digest?: string;
+  size?: number;
+  lambda?: {
+    functionName?: string;
+    deployedTo?: string[];
+    memorySize?: number;
+    timeout?: number;
+    runtime?: string;
+    [key: string]: unknown;
+  } | null;
+  edge?: { runtime?: string; [key: string]: unknown } | null;
+}
+
+export interface DeploymentBuild {
+  id: string;
+  entrypoint?: string;
+  // Builder that produced the outputs, e.g. @vercel/node
+  use?: string;
+  readyState?: DeploymentState;
+  output?: BuildOutput[];
+  [key: string]: unknown;
+}
+
+export interface DeploymentFunction {
+  path: string;
+  type: 'serverless' | 'edge';
+  runtime: string | null;
+  regions: string[];
+  memory: number | null;
+  maxDuration: number | null;
+  size: number | null;
+}
+
+// One way two deployments differ: a file, an env var name, a build setting or the git source
+export interface DeploymentDifference {
+  kind: 'file' | 'env' | 'config' | 'git';
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: string;
+  to?: string;
+}
+
+// A deployment a retention policy deletes, and why
+export interface PruneCandidate {
+  id: string;
+  url?: string;
+  branch: string | null;
+  state?: DeploymentState;
+  target: string;
+  created: number;
+  reason: string;
+}
+
+// A deployment as the status dashboard shows it
+export interface StatusDeployment {
+  id: string;
+  url?: string;
+  state?: DeploymentState;
+  ref?: string;
+  created?: number;
+}
+
+// One project's row of the status dashboard; building and errors count its recent deployments
+export interface ProjectStatus {
+  project: string;
+  production: StatusDeployment | null;
+  preview: StatusDeployment | null;
+  building: number;
+  errors: number;
+  domains: string[];
+  // What changed since the previous refresh, in watch mode
+  changes?: string[];
+}
+
+export interface Domain {
+  name: string;
+  apexName?: string;
+  projectId?: string;
+  verified?: boolean;
+  createdAt?: number;
+  serviceType?: string;
+  nameservers?: string[];
+  verification?: { type: string; domain: string; value: string; reason?: string }[];
+  [key: string]: unknown;
+}
+
+// How a domain's DNS currently points at Vercel, and what Vercel recommends
+export interface DomainConfig {
+  configuredBy?: 'CNAME' | 'A' | 'http' | 'dns-01' | null;
+  misconfigured: boolean;
+  acceptedChallenges?: string[];
+  recommendedIPv4?: { rank: number; value: string[] }[];
+  recommendedCNAME?: { rank: number; value: string }[];
+  [key: string]: unknown;
+}
+
+export interface EnvVar {
+  id: string;
+  key: string;
+  value?: string;
+  type?: EnvType;
+  target?: EnvTarget | EnvTarget[];
+  gitBranch?: string;
+  comment?: string;
+  decrypted?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+  [key: string]: unknown;
+}
+
+export interface EnvVarInput {
+  key: string;
+  value: string;
+  target: EnvTarget[];
+  type?: EnvType;
+  gitBranch?: string;
+  comment?: string;
+}
+
+// Picks a variable among those sharing a key; without gitBranch only target-wide variables match
+export interface EnvVarSelector {
+  target?: EnvTarget;
+  gitBranch?: string;
+}
+
+export interface EnvListOptions extends ListOptions {
+  // Ask the API to return decrypted values for encrypted variables
+  decrypt?: boolean;
+}
+
+export interface DnsRecord {
+  id: string;
+  name: string;
+  type: string;
+  value: string;
+  ttl?: number;
+  mxPriority?: number;
+  priority?: number;
+  createdAt?: number;
+  [key: string]: unknown;
+}
+
+// value holds the record data as written in a zone file, e.g. '10 5 5060 sip.example.com' for SRV;
+// SRV and HTTPS records are sent to the API as the structured fields instead
+export interface DnsRecordInput {
+  type: string;
+  name: string;
+  value: string;
+  ttl?: number;
+  mxPriority?: number;
+  srv?: SrvRecordData;
+  https?: HttpsRecordData;
+  comment?: string;
+}
+
+export interface SrvRecordData {
+  priority: number;
+  weight: number;
+  port: number;
+  target: string;
+}
+
+export interface HttpsRecordData {
+  priority: number;
+  target: string;
+  // SvcParams, e.g. 'alpn=h2,h3'
+  params?: string;
+}
+
+export interface Team {
+  id: string;
+  slug: string;
+  name?: string;
+  createdAt?: number;
+  [key: string]: unknown;
+}
+
+export interface User {
+  id?: string;
+  uid?: string;
+  username: string;
+  email?: string;
+  name?: string | null;
+  defaultTeamId?: string | null;
+  [key: string]: unknown;
+}
+
+export interface Secret {
+  uid: string;
+  name: string;
+  created?: string;
+  [key: string]: unknown;
+}
+
+export interface Cert {
+  uid?: string;
+  id?: string;
+  cns: string[];
+  created?: string | number;
+  createdAt?: number;
+  expiresAt?: number | string;
+  autoRenew?: boolean;
+  [key: string]: unknown;
+}
+
+export interface Alias {
+  uid: string;
+  alias: string;
+  deploymentId?: string | null;
+  projectId?: string | null;
+  createdAt?: number;
+  [key: string]: unknown;
+}
+
+export interface UsageMetrics {
+  // Bytes served
+  bandwidth: number;
+  functionInvocations: number;
+  buildMinutes: number;
+}
+
+// One project's usage on one day (YYYY-MM-DD, UTC), the granularity the billing API reports in
+export interface UsageRecord extends UsageMetrics {
+  day: string;
+  projectId: string;
+  projectName?: string;
+}
+
+export interface Usage extends Partial<UsageMetrics> {
+  period?: { start: number; end: number };
+  records?: UsageRecord[];
+  [key: string]: unknown;
+}
+
+// A row of usage totals for a project or a day
+export interface UsageRow extends UsageMetrics {
+  project?: string;
+  day?: string;
+}
+
+// A usage budget limit that was crossed, for the whole account or for one project
+export interface BudgetBreach {
+  scope: string;
+  metric: keyof UsageMetrics;
+  limit: number;
+  used: number;
+}
+
+// Everything project-export and project-plan compare: the project (undefined when it does not exist
+// yet), its domains and env vars, and the DNS records of the zones that were asked for
+export interface ProjectState {
+  project?: Project;
+  domains: Domain[];
+  envs: EnvVar[];
+  dns: Record<string, DnsRecord[]>;
+}
@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeploymentFile } from './types';
+
+// A manifest entry together with the file it was read from
+export interface LocalFile extends DeploymentFile {
+  path: string;
+}
+
+export interface CollectOptions {
+  // Upload the Build Output API directory (.vercel/output) instead of the sources
+  prebuilt?: boolean;
+}
+
+export const IGNORE_FILE = '.vercelignore';
+export const PREBUILT_DIR = '.vercel/output';
+
+// Never uploaded, in addition to the patterns in .vercelignore
+export const DEFAULT_IGNORES = [
+  '.git',
+  '.hg',
+  '.svn',
+  '.vercel',
+  '.next',
+  '.cache',
+  'node_modules',
+  '.DS_Store',
+  '.env.local',
+  '.env.*.local',
+  'npm-debug.log',
+  IGNORE_FILE,
+];
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+// Translates one gitignore-style glob to a regular expression over a slash-separated path
+function globToRegExp(glob: string, anchored: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}$`);
+}
+
+function parseIgnoreRule(line: string): IgnoreRule | undefined {
+  let glob = line.replace(/(?<!\\)\s+$/, '');
+  if (!glob || glob.startsWith('#')) return undefined;
+  const negate = glob.startsWith('!');
+  if (negate) glob = glob.slice(1);
+  const dirOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+  // A slash anywhere but the end ties the pattern to the directory holding the ignore file
+  const anchored = glob.includes('/');
+  glob = glob.replace(/^\//, '');
+  if (!glob) return undefined;
+  return { pattern: globToRegExp(glob.replace(/^\\([#!])/, '$1'), anchored), negate, dirOnly };
+}
+
+// Gitignore semantics: the last matching pattern wins, and ! re-includes a path. As with git,
+// files inside an ignored directory cannot be re-included because the directory is never read.
+export function createIgnoreFilter(patterns: string[]): (relative: string, isDirectory: boolean) => boolean {
+  const rules = patterns.map(parseIgnoreRule).filter((rule): rule is IgnoreRule => !!rule);
+  return (relative, isDirectory) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.pattern.test(relative)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+}
+
+function readIgnoreFile(dir: string): string[] {
+  const file = path.join(dir, IGNORE_FILE);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8').split(/\r?\n/) : [];
+}
+
+function walk(root: string, dir: string, ignored: (relative: string, isDirectory: boolean) => boolean, files: LocalFile[]): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const absolute = path.join(dir, entry.name);
+    const relative = path.relative(root, absolute).split(path.sep).join('/');
+    // Linked files are uploaded with their target's contents; linked directories are skipped to avoid cycles
+    const stat = fs.statSync(absolute, { throwIfNoEntry: false });
+    if (!stat || ignored(relative, stat.isDirectory())) continue;
+
+    if (stat.isDirectory()) {
+      if (entry.isSymbolicLink()) continue;
+      walk(root, absolute, ignored, files);
+    } else if (stat.isFile()) {
+      const sha = crypto.createHash('sha1').update(fs.readFileSync(absolute)).digest('hex');
+      files.push({ file: relative, sha, size: stat.size, mode: stat.mode, path: absolute });
+    }
+  }
+}
+
+// Lists the files of a deployment with their SHA1, honoring .vercelignore. Prebuilt deployments
+// upload .vercel/output as is, with paths kept relative to the project directory.
+export function collectFiles(dir: string, options: CollectOptions = {}): LocalFile[] {
+  const root = path.resolve(dir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) throw new Error(`Directory not found: ${dir}`);
+
+  const files: LocalFile[] = [];
+  if (options.prebuilt) {
+    const output = path.join(root, PREBUILT_DIR);
+    if (!fs.existsSync(path.join(output, 'config.json'))) {
+      throw new Error(`${path.join(dir, PREBUILT_DIR)}/config.json not found; build the project with 'vercel build' first`);
+    }
+    walk(root, output, () => false, files);
+  } else {
+    walk(root, root, createIgnoreFilter([...DEFAULT_IGNORES, ...readIgnoreFile(root)]), files);
+  }
+
+  if (!files.length) throw new Error(`No files to deploy in ${dir}`);
+  return files.sort((a, b) => a.file.localeCompare(b.file));
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { BudgetBreach, UsageMetrics, UsageRecord, UsageRow } from './types';
+
+// Limits on usage over the reported period, for the whole account and per project (by name or ID).
+// Bandwidth takes bytes or a size such as 500MB or 1.5TB.
+export interface UsageBudget {
+  total?: Partial<UsageMetrics>;
+  projects?: Record<string, Partial<UsageMetrics>>;
+}
+
+export type UsageGrouping = 'project' | 'day';
+
+export const USAGE_METRICS: (keyof UsageMetrics)[] = ['bandwidth', 'functionInvocations', 'buildMinutes'];
+
+const BYTE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+// Build minutes are fractional; keeps sums of them from picking up floating point noise
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function sumUsage(records: UsageRecord[]): UsageMetrics {
+  const totals: UsageMetrics = { bandwidth: 0, functionInvocations: 0, buildMinutes: 0 };
+  for (const record of records) {
+    for (const metric of USAGE_METRICS) totals[metric] = round(totals[metric] + (record[metric] || 0));
+  }
+  return totals;
+}
+
+// Totals per project (by name, sorted) or per day (chronological)
+export function groupUsage(records: UsageRecord[], by: UsageGrouping): UsageRow[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = by === 'day' ? record.day : record.projectName || record.projectId;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return [...groups.keys()].sort().map((key) => ({ [by]: key, ...sumUsage(groups.get(key)!) }));
+}
+
+export function parseBytes(value: number | string): number {
+  if (typeof value === 'number') return value;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i);
+  if (!match) throw new Error(`Invalid size: ${value}`);
+  return Math.round(parseFloat(match[1]) * BYTE_UNITS[(match[2] || 'b').toLowerCase()]);
+}
+
+export function readBudget(file: string): UsageBudget {
+  if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+  let budget: any;
+  try {
+    budget = parseYaml(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${(error as Error).message}`);
+  }
+  const invalid = (message: string) => new Error(`Invalid budget ${file}: ${message}`);
+  if (!budget || typeof budget !== 'object' || (!budget.total && !budget.projects)) throw invalid('set limits under total or projects');
+
+  const limits = (value: any, scope: string): Partial<UsageMetrics> => {
+    if (!value || typeof value !== 'object') throw invalid(`${scope} must map metrics to limits`);
+    const result: Partial<UsageMetrics> = {};
+    for (const [metric, limit] of Object.entries<any>(value)) {
+      if (!USAGE_METRICS.includes(metric as keyof UsageMetrics)) {
+        throw invalid(`unknown metric ${scope}.${metric} (expected ${USAGE_METRICS.join(', ')})`);
+      }
+      try {
+        result[metric as keyof UsageMetrics] = metric === 'bandwidth' ? parseBytes(limit) : Number(limit);
+      } catch (error) {
+        throw invalid(`${scope}.${metric}: ${(error as Error).message}`);
+      }
+      if (!Number.isFinite(result[metric as keyof UsageMetrics])) throw invalid(`${scope}.${metric} must be a number`);
+    }
+    return result;
+  };
+
+  return {
+    ...(budget.total && { total: limits(budget.total, 'total') }),
+    ...(budget.projects && {
+      projects: Object.fromEntries(Object.entries<any>(budget.projects).map(([project, value]) => [project, limits(value, `projects.${project}`)])),
+    }),
+  };
+}
+
+// Limits the usage went over; reaching a limit exactly is not a breach. Totals can be passed in for
+// responses without a per-project breakdown, whose project limits then cannot be crossed.
+export function checkBudget(budget: UsageBudget, records: UsageRecord[], totals = sumUsage(records)): BudgetBreach[] {
+  const breaches: BudgetBreach[] = [];
+  const check = (scope: string, limits: Partial<UsageMetrics>, used: UsageMetrics) => {
+    for (const metric of USAGE_METRICS) {
+      const limit = limits[metric];
+      if (limit !== undefined && used[metric] > limit) breaches.push({ scope, metric, limit, used: used[metric] });
+    }
+  };
+
+  if (budget.total) check('total', budget.total, totals);
+  for (const [project, limits] of Object.entries(budget.projects || {})) {
+    check(project, limits, sumUsage(records.filter((r) => r.projectId === project || r.projectName === project)));
+  }
+  return breaches;
+}
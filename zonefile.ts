@@ -0,0 +1,286 @@
+import { DnsRecord, DnsRecordInput } from './types';
+
+// Record types Vercel DNS can hold
+export const ZONE_TYPES = ['A', 'AAAA', 'ALIAS', 'CAA', 'CNAME', 'HTTPS', 'MX', 'NS', 'SRV', 'TXT'];
+
+// TTL written in $TTL and used for records without their own
+export const DEFAULT_ZONE_TTL = 3600;
+
+export interface ZoneImport {
+  records: DnsRecordInput[];
+  // Lines that were left out, with the reason
+  skipped: string[];
+}
+
+export interface ZoneDiffRow {
+  action: 'create' | 'skip';
+  record: DnsRecordInput;
+}
+
+interface ZoneEntry {
+  tokens: string[];
+  // Entries starting with whitespace reuse the previous owner name
+  indented: boolean;
+  line: number;
+}
+
+const CLASSES = ['IN', 'CH', 'HS', 'CS'];
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+// Types whose data is one or more host names
+const HOST_TYPES = ['ALIAS', 'CNAME', 'NS'];
+const MAX_TXT_CHUNK = 255;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\.$/, '');
+const isTtl = (token: string) => /^(\d+[smhdw]?)+$/i.test(token);
+
+function parseTtl(token: string): number {
+  if (/^\d+$/.test(token)) return Number(token);
+  let seconds = 0;
+  for (const [, amount, unit] of token.matchAll(/(\d+)([smhdw]?)/gi)) seconds += Number(amount) * TTL_UNITS[(unit || 's').toLowerCase()];
+  return seconds;
+}
+
+// Splits a zone file into entries of tokens, dropping comments and joining lines inside ( ).
+// Quoted strings are kept with their quotes so TXT and CAA data can be told apart from plain words.
+function tokenize(text: string): ZoneEntry[] {
+  const entries: ZoneEntry[] = [];
+  let line = 1;
+  let entry: ZoneEntry = { tokens: [], indented: /^[ \t]/.test(text), line };
+  let token = '';
+  let quoted = false;
+  let depth = 0;
+  const flush = () => {
+    if (token) entry.tokens.push(token);
+    token = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '\n') throw new Error(`Line ${entry.line}: unterminated string`);
+      token += char;
+      if (char === '\\') token += text[++i] ?? '';
+      else if (char === '"') quoted = false;
+    } else if (char === ';') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+    } else if (char === '"') {
+      quoted = true;
+      token += char;
+    } else if (char === '\\') {
+      token += char + (text[++i] ?? '');
+    } else if (char === '(' || char === ')') {
+      flush();
+      depth += char === '(' ? 1 : -1;
+      if (depth < 0) throw new Error(`Line ${line}: unbalanced ')'`);
+    } else if (char === '\n') {
+      flush();
+      line++;
+      if (depth === 0) {
+        if (entry.tokens.length) entries.push(entry);
+        entry = { tokens: [], indented: /[ \t]/.test(text[i + 1] ?? ''), line };
+      }
+    } else if (/\s/.test(char)) {
+      flush();
+    } else {
+      token += char;
+    }
+  }
+  if (quoted) throw new Error(`Line ${entry.line}: unterminated string`);
+  if (depth) throw new Error(`Line ${entry.line}: unbalanced '('`);
+  flush();
+  if (entry.tokens.length) entries.push(entry);
+  return entries;
+}
+
+// Removes the quotes and escapes of a character-string; \DDD is a decimal byte
+function unquote(token: string): string {
+  const body = token.startsWith('"') && token.endsWith('"') && token.length > 1 ? token.slice(1, -1) : token;
+  return body.replace(/\\(\d{3}|.)/g, (_, escaped: string) => (/^\d{3}$/.test(escaped) ? String.fromCharCode(Number(escaped)) : escaped));
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// Host names in record data become absolute without the trailing dot, the way the API stores them.
+// Without an origin (e.g. a dns-add value) names are taken as they are.
+function host(token: string, origin?: string): string {
+  if (token === '.') return token;
+  if (token === '@' && origin !== undefined) return origin;
+  if (token.endsWith('.') || origin === undefined) return token.replace(/\.$/, '');
+  return `${token}.${origin}`;
+}
+
+function integer(type: string, field: string, token: string): number {
+  const value = Number(token);
+  if (!/^\d+$/.test(token) || !Number.isSafeInteger(value)) throw new Error(`${type} ${field} must be a number, got '${token}'`);
+  return value;
+}
+
+function recordFromTokens(type: string, name: string, tokens: string[], origin?: string, ttl?: number): DnsRecordInput {
+  const need = (count: number, fields: string) => {
+    if (tokens.length < count) throw new Error(`${type} record needs ${fields}`);
+  };
+  const base = { type, name, ...(ttl !== undefined && { ttl }) };
+
+  switch (type) {
+    case 'MX':
+      need(2, 'a priority and a mail server');
+      return { ...base, value: host(tokens[1], origin), mxPriority: integer(type, 'priority', tokens[0]) };
+    case 'SRV': {
+      need(4, 'a priority, weight, port and target');
+      const [priority, weight, port] = tokens.slice(0, 3).map((token, i) => integer(type, ['priority', 'weight', 'port'][i], token));
+      const srv = { priority, weight, port, target: host(tokens[3], origin) };
+      return { ...base, value: `${priority} ${weight} ${port} ${srv.target}`, srv };
+    }
+    case 'HTTPS': {
+      need(2, 'a priority and a target');
+      const params = tokens.slice(2).join(' ');
+      const https = { priority: integer(type, 'priority', tokens[0]), target: host(tokens[1], origin), ...(params && { params }) };
+      return { ...base, value: [https.priority, https.target, params].filter((part) => part !== '').join(' '), https };
+    }
+    case 'CAA':
+      need(3, 'flags, a tag and a value');
+      return { ...base, value: `${integer(type, 'flags', tokens[0])} ${tokens[1].toLowerCase()} ${quote(tokens.slice(2).map(unquote).join(' '))}` };
+    case 'TXT':
+      need(1, 'a value');
+      // Long values are split into several strings, which DNS joins back together
+      return { ...base, value: tokens.map(unquote).join('') };
+    default:
+      need(1, 'a value');
+      return { ...base, value: HOST_TYPES.includes(type) ? host(tokens[0], origin) : tokens.join(' ') };
+  }
+}
+
+// Parses record data in zone file syntax, e.g. '10 mail.example.com' for MX or
+// '10 5 5060 sip.example.com' for SRV. Used for values given on the command line.
+export function parseRecord(type: string, name: string, data: string, ttl?: number): DnsRecordInput {
+  const tokens = tokenize(data).flatMap((entry) => entry.tokens);
+  return recordFromTokens(type.toUpperCase(), name === '@' ? '' : name, tokens, undefined, ttl);
+}
+
+// The record as an input, filling the SRV and HTTPS fields from the listed value. The list endpoint
+// can return their priority separately from the rest of the data.
+export function recordFromApi(record: DnsRecord): DnsRecordInput {
+  const base = { type: record.type, name: record.name, ...(record.ttl !== undefined && { ttl: record.ttl }) };
+  if (record.type === 'MX') return { ...base, value: record.value, mxPriority: record.mxPriority ?? record.priority };
+  if (record.type !== 'SRV' && record.type !== 'HTTPS') return { ...base, value: record.value };
+
+  const fields = record.value.trim().split(/\s+/);
+  const complete = record.type === 'SRV' ? fields.length >= 4 : /^\d+$/.test(fields[0]);
+  const data = !complete && record.priority !== undefined ? `${record.priority} ${record.value}` : record.value;
+  try {
+    return parseRecord(record.type, record.name, data, record.ttl);
+  } catch {
+    return { ...base, value: record.value };
+  }
+}
+
+// Identifies a record for matching: host names compare case-insensitively and with or without the
+// trailing dot, TXT and CAA data exactly
+export function recordKey(record: DnsRecordInput): string {
+  const type = record.type.toUpperCase();
+  const value = type === 'TXT' || type === 'CAA' ? record.value : record.value.toLowerCase().replace(/\.(?=\s|$)/g, '');
+  return [type, normalizeName(record.name), value, type === 'MX' ? record.mxPriority ?? 0 : ''].join('|');
+}
+
+// Owner name relative to the zone: '' for the apex, undefined for names outside it
+function relativeName(owner: string, zone: string): string | undefined {
+  if (owner === zone) return '';
+  return owner.endsWith(`.${zone}`) ? owner.slice(0, -(zone.length + 1)) : undefined;
+}
+
+// Reads a BIND zone file for the given domain. SOA and apex NS records, which Vercel manages, and
+// types it does not support are skipped rather than failing the import.
+export function parseZoneFile(text: string, domain: string): ZoneImport {
+  const zone = normalizeName(domain);
+  const records: DnsRecordInput[] = [];
+  const skipped: string[] = [];
+  let origin = zone;
+  let defaultTtl: number | undefined;
+  let owner: string | undefined;
+
+  for (const { tokens, indented, line } of tokenize(text)) {
+    const fail = (message: string) => new Error(`Line ${line}: ${message}`);
+    if (tokens[0].startsWith('$')) {
+      const directive = tokens[0].toUpperCase();
+      if (!tokens[1]) throw fail(`${directive} needs a value`);
+      if (directive === '$ORIGIN') origin = normalizeName(host(tokens[1], origin));
+      else if (directive === '$TTL') defaultTtl = parseTtl(tokens[1]);
+      else skipped.push(`line ${line}: ${directive} is not supported`);
+      continue;
+    }
+
+    if (!indented) owner = normalizeName(host(tokens.shift()!, origin));
+    if (owner === undefined) throw fail('record has no owner name');
+    let ttl = defaultTtl;
+    while (tokens.length && (isTtl(tokens[0]) || CLASSES.includes(tokens[0].toUpperCase()))) {
+      const token = tokens.shift()!;
+      if (isTtl(token)) ttl = parseTtl(token);
+    }
+    const type = tokens.shift()?.toUpperCase();
+    if (!type) throw fail('record has no type');
+
+    const name = relativeName(owner, zone);
+    if (name === undefined) skipped.push(`line ${line}: ${owner} is outside ${zone}`);
+    else if (type === 'SOA' || (type === 'NS' && name === '')) skipped.push(`line ${line}: ${type} records at the apex are managed by Vercel`);
+    else if (!ZONE_TYPES.includes(type)) skipped.push(`line ${line}: ${type} records are not supported`);
+    else {
+      try {
+        records.push(recordFromTokens(type, name, tokens, origin, ttl));
+      } catch (error) {
+        throw fail((error as Error).message);
+      }
+    }
+  }
+  return { records, skipped };
+}
+
+const absolute = (name: string) => (name === '.' || name.endsWith('.') ? name : `${name}.`);
+
+function formatData(record: DnsRecordInput): string {
+  const type = record.type.toUpperCase();
+  if (HOST_TYPES.includes(type)) return absolute(record.value);
+  if (type === 'MX') return `${record.mxPriority ?? 0} ${absolute(record.value)}`;
+  if (type === 'SRV' && record.srv) {
+    const { priority, weight, port, target } = record.srv;
+    return `${priority} ${weight} ${port} ${absolute(target)}`;
+  }
+  if (type === 'HTTPS' && record.https) {
+    const { priority, target, params } = record.https;
+    return [priority, absolute(target), params].filter((part) => part !== undefined).join(' ');
+  }
+  if (type === 'TXT') {
+    const chunks = record.value.match(new RegExp(`[^]{1,${MAX_TXT_CHUNK}}`, 'g')) || [''];
+    return chunks.map(quote).join(' ');
+  }
+  return record.value;
+}
+
+// Writes records as a BIND zone file with names relative to $ORIGIN, sorted by name and type
+export function formatZoneFile(domain: string, records: DnsRecordInput[], header?: string): string {
+  const sorted = [...records].sort(
+    (a, b) => a.name.localeCompare(b.name) || a.type.localeCompare(b.type) || a.value.localeCompare(b.value),
+  );
+  const rows = sorted.map((record) => [record.name || '@', String(record.ttl ?? DEFAULT_ZONE_TTL), 'IN', record.type.toUpperCase(), formatData(record)]);
+  const widths = [0, 1, 2, 3].map((i) => Math.max(0, ...rows.map((row) => row[i].length)));
+  const lines = [
+    ...(header ? [`; ${header}`] : []),
+    `$ORIGIN ${absolute(normalizeName(domain))}`,
+    `$TTL ${DEFAULT_ZONE_TTL}`,
+    ...rows.map((row) => row.map((cell, i) => (i < 4 ? cell.padEnd(widths[i]) : cell)).join(' ')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// Records of the file that are not in the zone yet are created; the rest, including repeats
+// within the file, are skipped. TTLs are not compared, so importing the same file twice is a no-op.
+export function diffZone(desired: DnsRecordInput[], live: DnsRecord[]): ZoneDiffRow[] {
+  const seen = new Set(live.map((record) => recordKey(recordFromApi(record))));
+  return desired.map((record) => {
+    const key = recordKey(record);
+    const action = seen.has(key) ? 'skip' : 'create';
+    seen.add(key);
+    return { action, record };
+  });
+}